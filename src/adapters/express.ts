@@ -1,8 +1,17 @@
+import { OutgoingHttpHeaders } from 'http';
 import { Request, Response, NextFunction, RequestHandler } from 'express';
 import { Redis, Cluster } from 'ioredis';
-import crypto from 'crypto';
-import { CacheService } from '../core/cache';
-import { CacheConfig } from '../core/types';
+import { CacheConfig, CacheEntry, CacheStore } from '../core/types';
+import { CacheEngine, CacheFill, CacheRequest } from '../core/engine';
+import { CacheMetrics, PROMETHEUS_CONTENT_TYPE } from '../core/metrics';
+import {
+  CaptureOptions,
+  captureResponse,
+  detachResponse,
+  replayResponse,
+  toCachedResponse,
+} from '../core/response';
+import { beforeHeaders } from '../core/http-cache';
 
 /**
  * Unified cache middleware for Express
@@ -11,11 +20,21 @@ import { CacheConfig } from '../core/types';
  * - Auto-caching for GET requests
  * - Tag-based invalidation for mutations
  * - Pattern-based invalidation
- * - User-specific caching
- * - Non-blocking invalidation
+ * - Per-user and per-session partitions
+ * - Vary-aware keys (headers, cookies, params, user fields)
+ * - Multi-tenant key scoping and quotas
+ * - Generation-based versioning for O(1) invalidation
+ * - Non-blocking invalidation, dry runs and an audit trail
+ * - Stale-while-revalidate and stale-if-error
+ * - Cache stampede protection on misses
+ * - Two-tier caching with an in-process L1
+ * - Prometheus-compatible metrics
+ * - Full response caching (status, headers, any body)
+ * - Cache-Control request and response directives
+ * - Conditional GET (ETag / Last-Modified, 304) and Cache-Control headers
  * - Manual cache control
  *
- * @param redisClient - Redis or Cluster instance
+ * @param redisClient - Redis, Cluster or CacheStore instance (e.g., a MemoryStore in tests)
  * @param config - Cache configuration options
  * @returns Express middleware function
  *
@@ -43,102 +62,121 @@ import { CacheConfig } from '../core/types';
  * ```
  */
 export function cacheMiddleware(
-  redisClient: Redis | Cluster,
+  redisClient: Redis | Cluster | CacheStore,
   config: CacheConfig = {}
 ): RequestHandler {
-  const {
-    strategy = 'auto',
-    ttl = 3600,
-    namespace = 'app',
-    autoCache = {},
-    invalidate = {},
-  } = config;
+  const { autoCache = {}, invalidate = {}, metrics } = config;
+  const engine = new CacheEngine<Request, Response>(redisClient, config);
+
+  // Reply with a cached entry, or 304 when the client's copy is still valid
+  const sendEntry = (
+    request: CacheRequest<Request, Response>,
+    res: Response,
+    entry: CacheEntry
+  ) => {
+    const response = engine.prepareEntry(request, res, entry);
+    if (!response) {
+      res.statusCode = 304;
+      res.end();
+      return;
+    }
+    replayResponse(res, response);
+  };
 
   return async (req: Request, res: Response, next: NextFunction) => {
-    // Always attach cache service to request
-    req.cache = new CacheService(redisClient, namespace, ttl);
+    // Always attach cache service to request, scoped to the request's tenant
+    const scope = engine.scope(req);
+    req.cache = scope.cache;
 
-    // If strategy is 'none' or 'manual', just attach service and continue
-    if (strategy === 'none' || strategy === 'manual') {
-      return next();
-    }
-
-    const isGetRequest = req.method === 'GET';
-    const isMutationRequest = ['POST', 'PUT', 'DELETE', 'PATCH'].includes(req.method);
+    const request = toCacheRequest(req, res);
+    const action = engine.getAction(request);
 
     // =========================================================
     // AUTO-CACHE for GET requests
     // =========================================================
 
-    if (isGetRequest && autoCache.enabled !== false) {
-      const shouldCache = autoCache.condition ? autoCache.condition(req) : true;
+    if (action === 'cache') {
+      const cacheKey = engine.getCacheKey(request);
+      req.cacheKey = cacheKey;
+      engine.setVary(res);
 
-      if (shouldCache) {
-        // Generate cache key
-        const generateKey =
-          autoCache.keyGenerator ||
-          ((req: Request) => {
-            const parts: string[] = [req.method, req.path];
+      // Count the final outcome once the response has been sent
+      if (metrics) {
+        res.once('finish', () => engine.recordResult(request.route, res.getHeader('X-Cache')));
+      }
 
-            // Add query params hash
-            const queryString = Object.keys(req.query)
-              .sort()
-              .map((key) => `${key}=${req.query[key]}`)
-              .join('&');
+      try {
+        const lookup = await engine.lookup(request, scope, cacheKey);
 
-            if (queryString) {
-              parts.push(crypto.createHash('md5').update(queryString).digest('hex'));
-            }
+        if (lookup.status === 'hit') {
+          // Cache HIT - return cached data immediately
+          engine.setResult(res, 'HIT', cacheKey, lookup.tier);
+          return sendEntry(request, res, lookup.entry);
+        }
 
-            // Add user ID if required
-            if (autoCache.includeAuth && (req as any).user?.id) {
-              parts.push(`user:${(req as any).user.id}`);
-            }
+        if (lookup.status === 'stale') {
+          // Serve stale data now, refresh it in the background
+          engine.setResult(res, 'STALE', cacheKey);
+          sendEntry(request, res, lookup.entry);
 
-            return parts.join(':');
-          });
+          const fill = await lookup.revalidate();
+          if (fill) {
+            revalidateInBackground(req, res, next, engine, fill);
+          }
+          return;
+        }
 
-        const cacheKey = generateKey(req);
-        req.cacheKey = cacheKey;
+        if (lookup.status === 'error') {
+          return next(lookup.error);
+        }
+
+        // Hand the stored entry to waiting requests and release the lock once the response is done
+        const { fill, fallback } = lookup;
+        res.once('close', () => fill.done());
+
+        // Cache MISS - continue to controller
+        engine.setResult(res, 'MISS', cacheKey);
+
+        // A 5xx is replaced before the response is captured, so it is never stored
+        if (fallback) {
+          serveStaleOnError(res, fallback);
+        }
 
-        try {
-          // Check cache
-          const cachedData = await req.cache.get(cacheKey);
+        // The controller's Cache-Control directives decide what is stored, not the header
+        // the middleware adds when headers are written (those passed to writeHead included)
+        let controllerHeaders: OutgoingHttpHeaders | null = null;
 
-          if (cachedData !== null) {
-            // Cache HIT - return cached data immediately
-            res.setHeader('X-Cache', 'HIT');
-            res.setHeader('X-Cache-Key', cacheKey);
-            return res.json(cachedData);
+        // Capture the response however the controller writes it (json, send, end, streams);
+        // only successful responses are cached
+        const captureOptions: CaptureOptions = {
+          ...engine.captureOptions,
+          build: (status, headers, body) =>
+            engine.capture(status, { ...headers, ...controllerHeaders }, body),
+        };
+        captureResponse(res, captureOptions, (response) => {
+          if (!res.headersSent) {
+            engine.setValidators(res, response);
           }
+          fill.store(response);
+        });
 
-          // Cache MISS - continue to controller
-          res.setHeader('X-Cache', 'MISS');
-          res.setHeader('X-Cache-Key', cacheKey);
-
-          // Override json method to cache response
-          const originalJson = res.json.bind(res);
-
-          res.json = function (data: any) {
-            // Only cache successful responses
-            if (res.statusCode >= 200 && res.statusCode < 300) {
-              const tags =
-                typeof autoCache.tags === 'function' ? autoCache.tags(req) : autoCache.tags || [];
-
-              // Cache asynchronously (non-blocking)
-              req.cache
-                .set(cacheKey, data, ttl, tags)
-                .catch((err) => console.error('Cache set error:', err));
-            }
-            return originalJson(data);
-          };
-
-          return next();
-        } catch (error) {
-          console.error('Auto-cache error:', error);
-          res.setHeader('X-Cache', 'ERROR');
-          return next();
+        // Advertise the fresh lifetime on successful responses generated by this request
+        if (autoCache.cacheControl) {
+          beforeHeaders(res, (_res, written) => {
+            const cacheControl = res.getHeader('Cache-Control');
+            controllerHeaders = {
+              'cache-control': cacheControl === undefined ? undefined : String(cacheControl),
+              ...written,
+            };
+            engine.setFreshHeaders(res, res.statusCode);
+          });
         }
+
+        return next();
+      } catch (error) {
+        console.error('Auto-cache error:', error);
+        engine.setResult(res, 'ERROR');
+        return next();
       }
     }
 
@@ -146,78 +184,50 @@ export function cacheMiddleware(
     // INVALIDATION for Mutation requests
     // =========================================================
 
-    if (isMutationRequest && invalidate.enabled !== false) {
-      const performInvalidation = async (data?: any) => {
-        try {
-          const promises: Promise<any>[] = [];
-
-          // Invalidate by tags
-          if (invalidate.tags) {
-            const tags =
-              typeof invalidate.tags === 'function'
-                ? invalidate.tags(req, res, data)
-                : invalidate.tags;
-
-            if (tags.length > 0) {
-              promises.push(req.cache.invalidateByTags(tags));
-            }
-          }
-
-          // Invalidate by patterns
-          if (invalidate.patterns) {
-            const patterns =
-              typeof invalidate.patterns === 'function'
-                ? invalidate.patterns(req, res, data)
-                : invalidate.patterns;
-
-            for (const pattern of patterns) {
-              promises.push(req.cache.delPattern(pattern));
-            }
-          }
-
-          // Invalidate by specific keys
-          if (invalidate.keys) {
-            const keys =
-              typeof invalidate.keys === 'function'
-                ? invalidate.keys(req, res, data)
-                : invalidate.keys;
-
-            for (const key of keys) {
-              promises.push(req.cache.del(key));
-            }
-          }
+    if (action === 'invalidate') {
+      const performInvalidation = (data?: any) =>
+        engine.invalidate(request, scope, res.statusCode, data);
+
+      // Keep the JSON data sent by the controller for {response.*} placeholders
+      let responseData: any;
+      let inJson = false;
+      let scheduled = false;
+      const originalJson = res.json.bind(res);
+      const originalSend = res.send.bind(res);
+
+      // Invalidate after response is sent (non-blocking), once per request
+      const scheduleInvalidation = (data: any) => {
+        if (!scheduled && isSuccess(res)) {
+          scheduled = true;
+          setImmediate(() => performInvalidation(data));
+        }
+      };
 
-          await Promise.all(promises);
-        } catch (error) {
-          console.error('Cache invalidation error:', error);
+      res.json = function (data: any) {
+        responseData = data;
+        inJson = true;
+        const result = originalJson(data);
+        inJson = false;
+        if (invalidate.afterResponse) {
+          scheduleInvalidation(data);
         }
+        return result;
       };
 
       if (invalidate.afterResponse) {
-        // Invalidate after response is sent (non-blocking)
-        const originalJson = res.json.bind(res);
-        const originalSend = res.send.bind(res);
-
-        res.json = function (data: any) {
-          const result = originalJson(data);
-          if (res.statusCode >= 200 && res.statusCode < 300) {
-            setImmediate(() => performInvalidation(data));
-          }
-          return result;
-        };
-
+        // res.json sends through res.send; that call is covered by the json wrapper
         res.send = function (data: any) {
           const result = originalSend(data);
-          if (res.statusCode >= 200 && res.statusCode < 300) {
-            setImmediate(() => performInvalidation(data));
+          if (!inJson) {
+            scheduleInvalidation(data);
           }
           return result;
         };
       } else {
         // Invalidate after response finishes
         res.on('finish', () => {
-          if (res.statusCode >= 200 && res.statusCode < 300) {
-            performInvalidation();
+          if (isSuccess(res)) {
+            performInvalidation(responseData);
           }
         });
       }
@@ -226,3 +236,119 @@ export function cacheMiddleware(
     next();
   };
 }
+
+/**
+ * Express handler exposing cache metrics in the Prometheus text exposition format
+ *
+ * @param metrics - Metrics registry passed to cacheMiddleware / CacheService
+ * @returns Express request handler
+ *
+ * @example
+ * ```typescript
+ * const metrics = new CacheMetrics();
+ *
+ * app.get('/users', cacheMiddleware(redis, { metrics }), getUsersController);
+ * app.get('/metrics', metricsHandler(metrics));
+ * ```
+ */
+export function metricsHandler(metrics: CacheMetrics): RequestHandler {
+  return (_req: Request, res: Response) => {
+    res.setHeader('Content-Type', PROMETHEUS_CONTENT_TYPE);
+    res.send(metrics.render());
+  };
+}
+
+/**
+ * Framework-neutral view of an Express request
+ * @private
+ */
+function toCacheRequest(req: Request, res: Response): CacheRequest<Request, Response> {
+  return {
+    req,
+    res,
+    method: req.method,
+    path: req.path,
+    url: req.originalUrl,
+    // Read when the response is done, once the router has matched the route
+    get route() {
+      return getRouteLabel(req);
+    },
+    query: req.query,
+    params: req.params,
+    headers: req.headers,
+    get body() {
+      return req.body;
+    },
+    get user() {
+      return (req as any).user;
+    },
+    cookies: (req as any).cookies,
+    // express-session
+    sessionId: (req as any).sessionID,
+  };
+}
+
+/**
+ * True for 2xx responses
+ * @private
+ */
+function isSuccess(res: Response): boolean {
+  return res.statusCode >= 200 && res.statusCode < 300;
+}
+
+/**
+ * Route label for metrics: the matched route pattern, never the raw path,
+ * to keep label cardinality bounded
+ * @private
+ */
+function getRouteLabel(req: Request): string {
+  if (req.route?.path) {
+    return `${req.baseUrl}${req.route.path}`;
+  }
+  return req.baseUrl || '*';
+}
+
+/**
+ * Re-run the route for a request whose stale response has already been sent,
+ * capturing the controller's response instead of writing it to the client
+ * @private
+ */
+function revalidateInBackground(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  engine: CacheEngine<Request, Response>,
+  fill: CacheFill
+): void {
+  // The response is complete; detach it so the controller (or an error handler) can run
+  // without writing to the socket again
+  detachResponse(res, () => fill.done());
+  captureResponse(res, engine.captureOptions, (response) => fill.store(response));
+
+  // The client already has its response; conditional headers must not turn the refresh into a 304
+  delete req.headers['if-none-match'];
+  delete req.headers['if-modified-since'];
+
+  res.statusCode = 200;
+  next();
+}
+
+/**
+ * Replace a 5xx response with a stale cached entry
+ * Covers controllers returning 5xx and errors rendered by error handlers
+ * @private
+ */
+function serveStaleOnError(res: Response, entry: CacheEntry): void {
+  const originalEnd = res.end.bind(res) as (...args: any[]) => Response;
+
+  (res as any).end = function (...args: any[]) {
+    if (res.statusCode >= 500 && !res.headersSent) {
+      res.removeHeader('Content-Encoding');
+      res.removeHeader('Content-Length');
+      res.setHeader('X-Cache', 'STALE');
+      replayResponse(res, toCachedResponse(entry), (body) => originalEnd(body));
+      return res;
+    }
+    return originalEnd(...args);
+  };
+}
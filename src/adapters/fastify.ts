@@ -0,0 +1,311 @@
+import { Redis, Cluster } from 'ioredis';
+import crypto from 'crypto';
+import {
+  CacheConfig,
+  CacheEntry,
+  CacheStore,
+  FastifyCacheReply,
+  FastifyCacheRequest,
+} from '../core/types';
+import { CacheEngine, CacheFill, CacheRequest, CacheScope, ResponseLookup } from '../core/engine';
+import { HeaderTarget } from '../core/http-cache';
+import { toCachedResponse } from '../core/response';
+
+/**
+ * Header of the internal request refreshing a stale entry; its value is a per-instance secret
+ */
+const REVALIDATE_HEADER = 'x-cache-revalidate';
+
+/**
+ * Hooks returned by fastifyCache
+ */
+export interface FastifyCacheHooks<TRequest, TReply> {
+  /** Attach the cache service, reply from the cache or mark a miss */
+  onRequest(request: TRequest, reply: TReply): Promise<unknown>;
+
+  /** Store the route's response, or invalidate after a mutation */
+  onSend(request: TRequest, reply: TReply, payload: unknown): Promise<unknown>;
+}
+
+/**
+ * What onRequest decided for a request, read back by onSend
+ */
+interface RequestState {
+  action: 'cache' | 'invalidate';
+  scope: CacheScope;
+  route: string;
+  fill?: CacheFill;
+  fallback?: CacheEntry | null;
+}
+
+/**
+ * Unified cache hooks for Fastify, with the same configuration and behavior as cacheMiddleware
+ *
+ * `onRequest` replies from the cache (HIT, STALE, 304) or lets the route run; `onSend` stores
+ * the serialized payload of a MISS, replaces a 5xx with a stale entry and schedules
+ * invalidation after mutations. Register both hooks on the routes to cache, or on an
+ * encapsulated plugin. Stale entries are refreshed with `server.inject`.
+ *
+ * Authentication that the 'user' scope, `varyBy.user` or the audit actor rely on must set
+ * `request.user` in an earlier onRequest hook. Fastify parses the body after onRequest, so
+ * `{body.*}` placeholders are read in onSend.
+ *
+ * @param redisClient - Redis, Cluster or CacheStore instance
+ * @param config - Cache configuration options; callbacks receive the Fastify request (and reply)
+ * @returns onRequest and onSend hooks
+ *
+ * @example
+ * ```typescript
+ * const cache = fastifyCache(redis, { ttl: 300, autoCache: { tags: ['users'] } });
+ *
+ * fastify.decorateRequest('cache', null);
+ * fastify.get('/users', { onRequest: cache.onRequest, onSend: cache.onSend }, getUsers);
+ *
+ * // Or for every route of a plugin
+ * fastify.addHook('onRequest', cache.onRequest);
+ * fastify.addHook('onSend', cache.onSend);
+ * ```
+ */
+export function fastifyCache<
+  TRequest extends FastifyCacheRequest = FastifyCacheRequest,
+  TReply extends FastifyCacheReply = FastifyCacheReply,
+>(
+  redisClient: Redis | Cluster | CacheStore,
+  config: CacheConfig<TRequest, TReply> = {}
+): FastifyCacheHooks<TRequest, TReply> {
+  const { invalidate = {} } = config;
+  const engine = new CacheEngine<TRequest, TReply>(redisClient, config);
+  const revalidateToken = crypto.randomBytes(16).toString('hex');
+  const states = new WeakMap<TRequest, RequestState>();
+
+  // Reply with a cached entry, or 304 when the client's copy is still valid
+  const sendEntry = (request: CacheRequest<TRequest, TReply>, reply: TReply, entry: CacheEntry) => {
+    const response = engine.prepareEntry(request, headerTarget(reply), entry);
+    if (!response) {
+      reply.code(304).send();
+      return;
+    }
+    for (const name of Object.keys(response.headers)) {
+      reply.header(name, response.headers[name]);
+    }
+    reply.code(response.status).send(Buffer.from(response.body, response.encoding));
+  };
+
+  // Run the route again through server.inject, bypassing the cache, and store its response
+  const revalidate = (request: TRequest, fill: CacheFill) => {
+    const headers = { ...request.headers, [REVALIDATE_HEADER]: revalidateToken };
+    delete headers['if-none-match'];
+    delete headers['if-modified-since'];
+
+    request.server
+      .inject({ method: 'GET', url: request.url, headers })
+      .then((response) => {
+        const captured = engine.capture(response.statusCode, response.headers, response.rawPayload);
+        if (captured) {
+          fill.store(captured);
+        }
+      })
+      .catch((error) => console.error('Cache revalidation error:', error))
+      .then(() => fill.done());
+  };
+
+  const onRequest = async (request: TRequest, reply: TReply): Promise<TReply | void> => {
+    // Always attach cache service to request, scoped to the request's tenant
+    const scope = engine.scope(request);
+    request.cache = scope.cache;
+
+    // The internal refresh of a stale entry reaches the route uncached
+    if (request.headers[REVALIDATE_HEADER] === revalidateToken) {
+      return;
+    }
+
+    const view = toCacheRequest(request, reply);
+    const action = engine.getAction(view);
+    if (!action) {
+      return;
+    }
+
+    const state: RequestState = { action, scope, route: view.route };
+    states.set(request, state);
+    if (action === 'invalidate') {
+      return;
+    }
+
+    // =========================================================
+    // AUTO-CACHE for GET requests
+    // =========================================================
+
+    const target = headerTarget(reply);
+    const cacheKey = engine.getCacheKey(view);
+    request.cacheKey = cacheKey;
+    engine.setVary(target);
+
+    let lookup: ResponseLookup;
+    try {
+      lookup = await engine.lookup(view, scope, cacheKey);
+    } catch (error) {
+      console.error('Auto-cache error:', error);
+      engine.setResult(target, 'ERROR');
+      return;
+    }
+
+    if (lookup.status === 'error') {
+      throw lookup.error;
+    }
+
+    if (lookup.status === 'hit') {
+      // Cache HIT - return cached data immediately
+      engine.setResult(target, 'HIT', cacheKey, lookup.tier);
+      sendEntry(view, reply, lookup.entry);
+      return reply;
+    }
+
+    if (lookup.status === 'stale') {
+      // Serve stale data now, refresh it in the background
+      engine.setResult(target, 'STALE', cacheKey);
+      sendEntry(view, reply, lookup.entry);
+
+      lookup
+        .revalidate()
+        .then((fill) => fill && revalidate(request, fill))
+        .catch((error) => console.error('Auto-cache error:', error));
+      return reply;
+    }
+
+    // Cache MISS - continue to the route; onSend stores its response
+    const { fill, fallback } = lookup;
+    state.fill = fill;
+    state.fallback = fallback;
+    reply.raw.once('close', () => fill.done());
+    engine.setResult(target, 'MISS', cacheKey);
+  };
+
+  const onSend = async (request: TRequest, reply: TReply, payload: unknown) => {
+    const state = states.get(request);
+    if (!state) {
+      return payload;
+    }
+
+    // =========================================================
+    // INVALIDATION for Mutation requests
+    // =========================================================
+
+    if (state.action === 'invalidate') {
+      if (reply.statusCode >= 200 && reply.statusCode < 300) {
+        // The body is parsed by now, for {body.*} placeholders
+        const view = toCacheRequest(request, reply);
+        const data = parseJson(reply, payload);
+        const performInvalidation = () =>
+          engine.invalidate(view, state.scope, reply.statusCode, data);
+
+        if (invalidate.afterResponse) {
+          setImmediate(performInvalidation);
+        } else {
+          reply.raw.once('finish', performInvalidation);
+        }
+      }
+      return payload;
+    }
+
+    const target = headerTarget(reply);
+    const { fill, fallback } = state;
+
+    if (fill) {
+      if (reply.statusCode >= 500 && fallback) {
+        // A 5xx is replaced with the last good response, and never stored
+        const response = toCachedResponse(fallback);
+        reply.removeHeader('Content-Encoding');
+        reply.removeHeader('Content-Length');
+        engine.setResult(target, 'STALE');
+        for (const name of Object.keys(response.headers)) {
+          reply.header(name, response.headers[name]);
+        }
+        reply.code(response.status);
+        payload = Buffer.from(response.body, response.encoding);
+      } else {
+        // Streams are not cached
+        const body = toBuffer(payload);
+        const response = body && engine.capture(reply.statusCode, reply.getHeaders(), body);
+        if (response) {
+          engine.setValidators(target, response);
+          fill.store(response);
+        }
+        engine.setFreshHeaders(target, reply.statusCode);
+      }
+      fill.done();
+    }
+
+    engine.recordResult(state.route, reply.getHeader('X-Cache'));
+    return payload;
+  };
+
+  return { onRequest, onSend };
+}
+
+/**
+ * Framework-neutral view of a Fastify request
+ * @private
+ */
+function toCacheRequest<TRequest extends FastifyCacheRequest, TReply>(
+  request: TRequest,
+  reply: TReply
+): CacheRequest<TRequest, TReply> {
+  const index = request.url.indexOf('?');
+
+  return {
+    req: request,
+    res: reply,
+    method: request.method,
+    path: index === -1 ? request.url : request.url.substring(0, index),
+    url: request.url,
+    route: request.routeOptions?.url || request.routerPath || '*',
+    query: (request.query || {}) as Record<string, any>,
+    params: request.params as Record<string, string> | undefined,
+    headers: request.headers,
+    body: request.body,
+    user: request.user,
+    cookies: request.cookies as Record<string, string> | undefined,
+    sessionId: request.session?.sessionId,
+  };
+}
+
+/**
+ * Reply headers as a header target
+ * @private
+ */
+function headerTarget(reply: FastifyCacheReply): HeaderTarget {
+  return {
+    getHeader: (name) => reply.getHeader(name),
+    setHeader: (name, value) => reply.header(name, value),
+  };
+}
+
+/**
+ * Raw bytes of a serialized payload; null for streams
+ * @private
+ */
+function toBuffer(payload: unknown): Buffer | null {
+  if (payload === null || payload === undefined) {
+    return Buffer.alloc(0);
+  }
+  if (typeof payload === 'string') {
+    return Buffer.from(payload);
+  }
+  return Buffer.isBuffer(payload) ? payload : null;
+}
+
+/**
+ * JSON data of a serialized payload, for {response.*} placeholders
+ * @private
+ */
+function parseJson(reply: FastifyCacheReply, payload: unknown): any {
+  const type = reply.getHeader('Content-Type');
+  if (typeof payload !== 'string' || !String(type).includes('json')) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(payload);
+  } catch (error) {
+    return undefined;
+  }
+}
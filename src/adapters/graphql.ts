@@ -0,0 +1,429 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { Redis, Cluster } from 'ioredis';
+import crypto from 'crypto';
+import { CacheService } from '../core/cache';
+import {
+  CacheEntry,
+  CachedResponse,
+  CacheStore,
+  GraphQLCacheConfig,
+  GraphQLInvalidation,
+  ICacheService,
+  ResolverCacheOptions,
+  ResolverInfo,
+} from '../core/types';
+import { createEntry, getEntryState, toEntry } from '../core/entry';
+import { resolvePartition, setsCookie } from '../core/partition';
+import {
+  CaptureOptions,
+  captureResponse,
+  createCachedResponse,
+  replayResponse,
+  toCachedResponse,
+} from '../core/response';
+import {
+  GraphQLOperation,
+  collectEntityTags,
+  normalizeDocument,
+  parseOperation,
+  resolveCacheHint,
+} from '../core/graphql';
+import { CompiledTemplate, TemplateContext, compileTemplate } from '../core/invalidation-template';
+
+/**
+ * Root operation types; their resolvers are cached by arguments alone
+ */
+const ROOT_TYPES = ['Query', 'Mutation', 'Subscription'];
+
+/**
+ * GraphQL request fields read from the body (POST) or the query string (GET)
+ */
+interface GraphQLRequest {
+  query: string;
+  variables: Record<string, any>;
+  operationName?: string;
+}
+
+/**
+ * Query-level cache for a GraphQL endpoint served by Express
+ *
+ * Place it before the GraphQL handler, after the body parser. Query operations are cached
+ * under their normalized document, operation name and variables (and the user or session, for
+ * private results); mutations and subscriptions always reach the server. As for auto-cache,
+ * queries with an Authorization header are not cached in the 'public' scope. The TTL is the lowest
+ * `@cacheControl`-style hint of the selected fields (from `hints`, tightened by the document's
+ * directives with `queryDirectives`). Successful mutations invalidate the tags
+ * configured for their fields and, with `entityTags`, the entities they return.
+ *
+ * @param redisClient - Redis, Cluster or CacheStore instance
+ * @param config - Cache configuration options
+ * @returns Express middleware function
+ *
+ * @example
+ * ```typescript
+ * app.post('/graphql',
+ *   express.json(),
+ *   graphqlCacheMiddleware(redis, {
+ *     ttl: 300,
+ *     hints: { stats: { maxAge: 10 }, me: { scope: 'PRIVATE' } },
+ *     invalidate: { createPost: ['Query.posts'] },
+ *   }),
+ *   graphqlHandler
+ * );
+ * ```
+ */
+export function graphqlCacheMiddleware(
+  redisClient: Redis | Cluster | CacheStore,
+  config: GraphQLCacheConfig = {}
+): RequestHandler {
+  const {
+    ttl = 3600,
+    namespace = 'app',
+    hints,
+    queryDirectives = false,
+    scope = config.includeAuth ? 'user' : 'public',
+    tags,
+    entityTags = true,
+    invalidate = {},
+    condition,
+    maxBodySize,
+    compression,
+    serializer,
+    serializers,
+    l1,
+    invalidationChannel,
+    tenant,
+    versioning,
+    hashTags,
+  } = config;
+
+  const sharedCache = new CacheService(redisClient, namespace, ttl, {
+    compression,
+    serializer,
+    serializers,
+    l1,
+    invalidationChannel,
+    tenantQuota: tenant?.quota,
+    versioning,
+    hashTags,
+  });
+
+  // Responses that set cookies are never stored
+  const captureOptions: CaptureOptions = {
+    maxBodySize,
+    build: (status, headers, body) =>
+      setsCookie(headers) ? null : createCachedResponse(status, headers, body),
+  };
+
+  // Static invalidation lists may contain {source.path} placeholders; malformed ones throw here
+  const invalidations = new Map<
+    string,
+    CompiledTemplate[] | Exclude<GraphQLInvalidation, string[]>
+  >(
+    Object.keys(invalidate).map((field) => {
+      const option = invalidate[field];
+      return [
+        field,
+        Array.isArray(option) ? option.map((template) => compileTemplate(template)) : option,
+      ];
+    })
+  );
+
+  // Invalidate the tags of each mutation field that returned a result
+  const invalidateMutation = async (
+    req: Request,
+    request: GraphQLRequest,
+    operation: GraphQLOperation,
+    data: Record<string, any>
+  ) => {
+    const targets: string[] = [];
+
+    for (const field of operation.rootFields) {
+      const result = data[field.responseKey];
+      if (result === null || result === undefined) {
+        continue;
+      }
+
+      const option = invalidations.get(field.name);
+      if (typeof option === 'function') {
+        targets.push(...option(result, request.variables, req));
+      } else if (option) {
+        const context: TemplateContext = {
+          params: req.params,
+          query: req.query,
+          body: req.body,
+          headers: req.headers,
+          user: (req as any).user,
+          response: result,
+        };
+        for (const template of option) {
+          try {
+            targets.push(template.resolve(context));
+          } catch (error) {
+            console.error('Cache invalidation template error:', error);
+          }
+        }
+      }
+
+      if (entityTags) {
+        targets.push(...collectEntityTags(result));
+      }
+    }
+
+    if (targets.length > 0) {
+      await req.cache.invalidateByTags(Array.from(new Set(targets)));
+    }
+  };
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    // Always attach cache service to request, scoped to the request's tenant
+    const tenantId = tenant ? tenant.resolve(req) : null;
+    const cache = tenantId ? sharedCache.forTenant(tenantId) : sharedCache;
+    req.cache = cache;
+
+    const request = readRequest(req);
+    if (!request) {
+      return next();
+    }
+
+    // Documents the scanner cannot read are left for the GraphQL server to report
+    let operation: GraphQLOperation;
+    try {
+      operation = parseOperation(request.query, request.operationName);
+    } catch (error) {
+      return next();
+    }
+
+    // =========================================================
+    // INVALIDATION for mutations
+    // =========================================================
+
+    if (operation.type === 'mutation') {
+      let data: Record<string, any> | null = null;
+      captureResponse(res, { maxBodySize: Infinity }, (response) => {
+        data = parseResult(response)?.data || null;
+      });
+      res.once('finish', () => {
+        if (data) {
+          invalidateMutation(req, request, operation, data).catch((error) =>
+            console.error('GraphQL cache invalidation error:', error)
+          );
+        }
+      });
+      return next();
+    }
+
+    // =========================================================
+    // CACHE for queries
+    // =========================================================
+
+    if (operation.type !== 'query' || (condition && !condition(req))) {
+      return next();
+    }
+
+    const hint = resolveCacheHint(operation.fields, hints, queryDirectives);
+    const maxAge = Math.min(ttl, hint.maxAge ?? ttl);
+    const partition = resolvePartition(
+      hint.scope === 'PRIVATE' && scope === 'public' ? 'user' : scope,
+      { req, headers: req.headers, user: (req as any).user, sessionId: (req as any).sessionID },
+      config
+    );
+
+    // Never share a private result, or one hinted as uncacheable
+    if (maxAge <= 0 || !partition) {
+      return next();
+    }
+
+    // Formatting and comments do not change the key; variable order does not either
+    const document = `${normalizeDocument(request.query)}\n${request.operationName || ''}`;
+    const variant = partition.key ? `:${partition.key}` : '';
+    const digest = hash(`${document}\n${stableStringify(request.variables)}`);
+    const cacheKey = `graphql:${digest}${variant}`;
+    req.cacheKey = cacheKey;
+
+    try {
+      const cachedValue = await cache.get(cacheKey);
+      if (cachedValue !== null) {
+        const entry = toEntry(cachedValue);
+        if (getEntryState(entry) === 'fresh') {
+          res.setHeader('X-Cache', 'HIT');
+          res.setHeader('X-Cache-Key', cacheKey);
+          return replayResponse(res, toCachedResponse(entry));
+        }
+      }
+
+      res.setHeader('X-Cache', 'MISS');
+      res.setHeader('X-Cache-Key', cacheKey);
+
+      // Only complete results are cached; responses with errors reach the server again
+      captureResponse(res, captureOptions, (response) => {
+        const result = parseResult(response);
+        if (!result || !result.data || (Array.isArray(result.errors) && result.errors.length > 0)) {
+          return;
+        }
+
+        const entryTags = [
+          ...operation.rootFields.map((field) => `Query.${field.name}`),
+          ...(typeof tags === 'function' ? tags(req) : tags || []),
+          ...(entityTags ? collectEntityTags(result.data) : []),
+          ...(partition.tag ? [partition.tag] : []),
+        ];
+        const entry: CacheEntry<CachedResponse> = {
+          ...createEntry(response, maxAge),
+          kind: 'response',
+        };
+
+        // Cache asynchronously (non-blocking)
+        req.cache
+          .set(cacheKey, entry, maxAge, Array.from(new Set(entryTags)))
+          .catch((err) => console.error('Cache set error:', err));
+      });
+
+      return next();
+    } catch (error) {
+      console.error('GraphQL cache error:', error);
+      res.setHeader('X-Cache', 'ERROR');
+      return next();
+    }
+  };
+}
+
+/**
+ * Cache a resolver's results with getOrSet
+ *
+ * Results are keyed by type, field and arguments; fields of non-root types also use the
+ * parent's `id` and are resolved uncached when the parent has none (or pass `key`).
+ *
+ * @param cache - Cache service, or a function picking it from the context (e.g. `ctx.req.cache`)
+ * @param resolver - Resolver to cache
+ * @param options - TTL, key and tags
+ * @returns Caching resolver
+ *
+ * @example
+ * ```typescript
+ * const resolvers = {
+ *   Query: {
+ *     product: cacheResolver(cache, (_parent, { id }) => db.products.find(id), {
+ *       ttl: 300,
+ *       tags: (_parent, { id }) => [`Product:${id}`],
+ *     }),
+ *   },
+ * };
+ * ```
+ */
+export function cacheResolver<TParent = any, TArgs = any, TContext = any, TResult = any>(
+  cache: ICacheService | ((context: TContext) => ICacheService),
+  resolver: (
+    parent: TParent,
+    args: TArgs,
+    context: TContext,
+    info: ResolverInfo
+  ) => TResult | Promise<TResult>,
+  options: ResolverCacheOptions<TParent, TArgs, TContext> = {}
+): (parent: TParent, args: TArgs, context: TContext, info: ResolverInfo) => Promise<TResult> {
+  return async (parent, args, context, info) => {
+    const key = options.key
+      ? options.key(parent, args, context, info)
+      : getResolverKey(parent, args, info);
+    if (key === null) {
+      return resolver(parent, args, context, info);
+    }
+
+    const service = typeof cache === 'function' ? cache(context) : cache;
+    const tags = typeof options.tags === 'function' ? options.tags(parent, args) : options.tags;
+    return service.getOrSet(
+      key,
+      async () => resolver(parent, args, context, info),
+      options.ttl,
+      tags
+    );
+  };
+}
+
+/**
+ * Default resolver cache key, or null for fields of a parent without an id
+ * @private
+ */
+function getResolverKey(parent: any, args: any, info: ResolverInfo): string | null {
+  const field = `${info.parentType.name}.${info.fieldName}`;
+  const argsHash = hash(stableStringify(args || {}));
+
+  if (ROOT_TYPES.includes(info.parentType.name)) {
+    return `resolver:${field}:${argsHash}`;
+  }
+
+  const id = parent?.id;
+  if (typeof id !== 'string' && typeof id !== 'number') {
+    return null;
+  }
+  return `resolver:${field}:${id}:${argsHash}`;
+}
+
+/**
+ * GraphQL request of a POST body or GET query string
+ * Batched and persisted-query requests (no document) are not cached
+ * @private
+ */
+function readRequest(req: Request): GraphQLRequest | null {
+  const source: any = req.method === 'GET' ? req.query : req.body;
+  if (!source || typeof source !== 'object' || typeof source.query !== 'string') {
+    return null;
+  }
+
+  let variables = source.variables || {};
+  if (typeof variables === 'string') {
+    try {
+      variables = JSON.parse(variables);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  return {
+    query: source.query,
+    variables,
+    operationName: typeof source.operationName === 'string' ? source.operationName : undefined,
+  };
+}
+
+/**
+ * JSON result of a captured GraphQL response
+ * @private
+ */
+function parseResult(response: CachedResponse): { data?: any; errors?: unknown[] } | null {
+  if (response.encoding !== 'utf8') {
+    return null;
+  }
+  try {
+    const result = JSON.parse(response.body);
+    return result !== null && typeof result === 'object' ? result : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * JSON with object keys sorted, so equal variables give equal keys
+ * @private
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => value[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Short digest of a key part
+ * @private
+ */
+function hash(value: string): string {
+  return crypto.createHash('md5').update(value).digest('hex');
+}
@@ -0,0 +1,279 @@
+import { Redis, Cluster } from 'ioredis';
+import { CacheConfig, CacheEntry, CacheStore, KoaCacheContext } from '../core/types';
+import { CacheEngine, CacheFill, CacheRequest, ResponseLookup } from '../core/engine';
+import { HeaderTarget } from '../core/http-cache';
+import { detachResponse, replayResponse, toCachedResponse } from '../core/response';
+
+/**
+ * Unified cache middleware for Koa, with the same configuration and behavior as cacheMiddleware
+ *
+ * Cached responses are set as `ctx.status`, headers and a Buffer `ctx.body`; on a MISS the
+ * body set by downstream middleware is stored once it returns (strings, Buffers and JSON
+ * bodies; streams are not cached). A 5xx status or an error thrown downstream is replaced
+ * by a stale entry within the `staleIfError` window. Stale entries are written to the socket
+ * directly (`ctx.respond = false`) before downstream runs again to refresh them.
+ *
+ * Callbacks receive the context, for both arguments of invalidation functions; the
+ * authenticated user is read from `ctx.state.user`.
+ *
+ * @param redisClient - Redis, Cluster or CacheStore instance
+ * @param config - Cache configuration options
+ * @returns Koa middleware function
+ *
+ * @example
+ * ```typescript
+ * router.get('/users', koaCache(redis, { ttl: 300, autoCache: { tags: ['users'] } }), getUsers);
+ * router.post('/users', koaCache(redis, { invalidate: { tags: ['users'] } }), createUser);
+ * ```
+ */
+export function koaCache<TContext extends KoaCacheContext = KoaCacheContext>(
+  redisClient: Redis | Cluster | CacheStore,
+  config: CacheConfig<TContext, TContext> = {}
+): (ctx: TContext, next: () => Promise<any>) => Promise<void> {
+  const { invalidate = {} } = config;
+  const engine = new CacheEngine<TContext, TContext>(redisClient, config);
+
+  // Reply with a cached entry, or 304 when the client's copy is still valid
+  const sendEntry = (
+    request: CacheRequest<TContext, TContext>,
+    ctx: TContext,
+    entry: CacheEntry
+  ) => {
+    const response = engine.prepareEntry(request, headerTarget(ctx), entry);
+    if (!response) {
+      ctx.status = 304;
+      return;
+    }
+    ctx.status = response.status;
+    for (const name of Object.keys(response.headers)) {
+      ctx.set(name, response.headers[name]);
+    }
+    ctx.body = Buffer.from(response.body, response.encoding);
+  };
+
+  // Run downstream again after the stale response was sent, capturing what it sets
+  const revalidate = async (ctx: TContext, next: () => Promise<any>, fill: CacheFill) => {
+    detachResponse(ctx.res, () => undefined);
+
+    // The client already has its response; conditional headers must not turn the refresh into a 304
+    delete ctx.headers['if-none-match'];
+    delete ctx.headers['if-modified-since'];
+    ctx.res.statusCode = 404;
+
+    try {
+      await next();
+      const body = toBuffer(ctx.body);
+      const response = body && engine.capture(ctx.status, ctx.response.headers, body);
+      if (response) {
+        fill.store(response);
+      }
+    } catch (error) {
+      console.error('Cache revalidation error:', error);
+    } finally {
+      fill.done();
+    }
+  };
+
+  return async (ctx: TContext, next: () => Promise<any>) => {
+    // Always attach cache service to context, scoped to the request's tenant
+    const scope = engine.scope(ctx);
+    ctx.cache = scope.cache;
+
+    const request = toCacheRequest(ctx);
+    const action = engine.getAction(request);
+
+    // =========================================================
+    // AUTO-CACHE for GET requests
+    // =========================================================
+
+    if (action === 'cache') {
+      const target = headerTarget(ctx);
+      const cacheKey = engine.getCacheKey(request);
+      ctx.cacheKey = cacheKey;
+      engine.setVary(target);
+
+      let lookup: ResponseLookup;
+      try {
+        lookup = await engine.lookup(request, scope, cacheKey);
+      } catch (error) {
+        console.error('Auto-cache error:', error);
+        engine.setResult(target, 'ERROR');
+        await next();
+        engine.recordResult(request.route, 'ERROR');
+        return;
+      }
+
+      if (lookup.status === 'error') {
+        throw lookup.error;
+      }
+
+      if (lookup.status === 'hit') {
+        // Cache HIT - return cached data immediately
+        engine.setResult(target, 'HIT', cacheKey, lookup.tier);
+        sendEntry(request, ctx, lookup.entry);
+        engine.recordResult(request.route, 'HIT');
+        return;
+      }
+
+      if (lookup.status === 'stale') {
+        // Serve stale data now, then refresh it
+        engine.setResult(target, 'STALE', cacheKey);
+        const response = engine.prepareEntry(request, target, lookup.entry);
+        ctx.respond = false;
+        if (response) {
+          replayResponse(ctx.res, response);
+        } else {
+          ctx.res.statusCode = 304;
+          ctx.res.end();
+        }
+        engine.recordResult(request.route, 'STALE');
+
+        let fill: CacheFill | null = null;
+        try {
+          fill = await lookup.revalidate();
+        } catch (error) {
+          console.error('Auto-cache error:', error);
+        }
+        if (fill) {
+          await revalidate(ctx, next, fill);
+        }
+        return;
+      }
+
+      // Cache MISS - continue downstream
+      const { fill, fallback } = lookup;
+      engine.setResult(target, 'MISS', cacheKey);
+
+      try {
+        let failed = false;
+        try {
+          await next();
+        } catch (error) {
+          if (!fallback) {
+            throw error;
+          }
+          failed = true;
+        }
+
+        if (fallback && (failed || ctx.status >= 500)) {
+          // The last good response replaces the error, and is never stored
+          const response = toCachedResponse(fallback);
+          ctx.remove('Content-Encoding');
+          ctx.remove('Content-Length');
+          engine.setResult(target, 'STALE');
+          ctx.status = response.status;
+          for (const name of Object.keys(response.headers)) {
+            ctx.set(name, response.headers[name]);
+          }
+          ctx.body = Buffer.from(response.body, response.encoding);
+        } else {
+          const body = toBuffer(ctx.body);
+          const response = body && engine.capture(ctx.status, ctx.response.headers, body);
+          if (response) {
+            engine.setValidators(target, response);
+            fill.store(response);
+          }
+          engine.setFreshHeaders(target, ctx.status);
+        }
+      } finally {
+        fill.done();
+        engine.recordResult(request.route, ctx.response.get('X-Cache'));
+      }
+      return;
+    }
+
+    await next();
+
+    // =========================================================
+    // INVALIDATION for Mutation requests
+    // =========================================================
+
+    if (action === 'invalidate' && ctx.status >= 200 && ctx.status < 300) {
+      const status = ctx.status;
+      const data = isJsonBody(ctx.body) ? ctx.body : undefined;
+      const performInvalidation = () => engine.invalidate(request, scope, status, data);
+
+      if (invalidate.afterResponse) {
+        setImmediate(performInvalidation);
+      } else {
+        ctx.res.once('finish', performInvalidation);
+      }
+    }
+  };
+}
+
+/**
+ * Framework-neutral view of a Koa context
+ * @private
+ */
+function toCacheRequest<TContext extends KoaCacheContext>(
+  ctx: TContext
+): CacheRequest<TContext, TContext> {
+  return {
+    req: ctx,
+    res: ctx,
+    method: ctx.method,
+    path: ctx.path,
+    url: ctx.originalUrl,
+    // Read when the response is done, once the router has matched the route
+    get route() {
+      return ctx._matchedRoute ? String(ctx._matchedRoute) : '*';
+    },
+    query: ctx.query,
+    get params() {
+      return ctx.params;
+    },
+    headers: ctx.headers,
+    get body() {
+      return ctx.request.body;
+    },
+    get user() {
+      return ctx.state.user;
+    },
+  };
+}
+
+/**
+ * Response headers of a context as a header target
+ * @private
+ */
+function headerTarget(ctx: KoaCacheContext): HeaderTarget {
+  return {
+    getHeader: (name) => ctx.response.get(name) || undefined,
+    setHeader: (name, value) =>
+      ctx.set(name, Array.isArray(value) ? value.map(String) : String(value)),
+  };
+}
+
+/**
+ * Raw bytes Koa sends for a body; null for streams
+ * @private
+ */
+function toBuffer(body: any): Buffer | null {
+  if (body === null || body === undefined) {
+    return Buffer.alloc(0);
+  }
+  if (typeof body === 'string') {
+    return Buffer.from(body);
+  }
+  if (Buffer.isBuffer(body)) {
+    return body;
+  }
+  if (typeof body.pipe === 'function') {
+    return null;
+  }
+  return Buffer.from(JSON.stringify(body));
+}
+
+/**
+ * True for bodies Koa serializes as JSON
+ * @private
+ */
+function isJsonBody(body: any): boolean {
+  return (
+    body !== null &&
+    typeof body === 'object' &&
+    !Buffer.isBuffer(body) &&
+    typeof body.pipe !== 'function'
+  );
+}
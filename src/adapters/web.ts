@@ -0,0 +1,422 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { Readable } from 'stream';
+import { Redis, Cluster } from 'ioredis';
+import { CacheConfig, CacheEntry, CachedResponse, CacheStore, ICacheService } from '../core/types';
+import { CacheEngine, CacheFill, CacheRequest, CacheScope, ResponseLookup } from '../core/engine';
+import { HeaderTarget } from '../core/http-cache';
+import { DEFAULT_MAX_BODY_SIZE, toCachedResponse } from '../core/response';
+
+/**
+ * Statuses whose responses must not have a body; the Response constructor rejects one
+ */
+const NULL_BODY_STATUSES = [204, 205, 304];
+
+/**
+ * Web-standard handler (undici, edge-style routers); the cache service is passed as
+ * second argument for manual caching
+ */
+export type WebHandler = (request: Request, cache: ICacheService) => Promise<Response>;
+
+/**
+ * Unified cache for Web-standard `(Request) => Promise<Response>` handlers, with the same
+ * configuration and behavior as cacheMiddleware
+ *
+ * Returns a wrapper applying one configuration to any number of handlers. Response bodies
+ * are buffered to be stored and replayed with their status and whitelisted headers; bodies
+ * over `maxBodySize` stream through uncached. Stale entries are refreshed by calling the
+ * handler again in the background. Without `afterResponse`, invalidation completes before the
+ * response is returned.
+ *
+ * Web requests carry no route params, user or session: `{params.*}` placeholders stay empty,
+ * and the 'user' and 'session' scopes need `autoCache.identity`. Requires Node 18+.
+ *
+ * @param redisClient - Redis, Cluster or CacheStore instance
+ * @param config - Cache configuration options; callbacks receive the Request (and Response)
+ * @returns Function wrapping a handler
+ *
+ * @example
+ * ```typescript
+ * const cached = webCache(redis, { ttl: 300, autoCache: { tags: ['users'] } });
+ *
+ * export default { fetch: cached(async (request) => Response.json(await listUsers())) };
+ *
+ * // Plain node:http
+ * http.createServer(toRequestListener(cached(handler))).listen(3000);
+ * ```
+ */
+export function webCache(
+  redisClient: Redis | Cluster | CacheStore,
+  config: CacheConfig<Request, Response> = {}
+): (handler: WebHandler) => (request: Request) => Promise<Response> {
+  const { autoCache = {}, invalidate = {} } = config;
+  const { maxBodySize = DEFAULT_MAX_BODY_SIZE } = autoCache;
+  const engine = new CacheEngine<Request, Response>(redisClient, config);
+
+  // Reply with a cached entry, or 304 when the client's copy is still valid
+  const sendEntry = (
+    request: CacheRequest<Request, Response>,
+    headers: Headers,
+    entry: CacheEntry
+  ): Response => {
+    const response = engine.prepareEntry(request, headerTarget(headers), entry);
+    if (!response) {
+      return new Response(null, { status: 304, headers });
+    }
+    return replay(response, headers);
+  };
+
+  // Call the handler again for a request whose stale response has been returned
+  const revalidate = (
+    request: Request,
+    handler: WebHandler,
+    cache: ICacheService,
+    fill: CacheFill
+  ) => {
+    const headers = new Headers(request.headers);
+    headers.delete('if-none-match');
+    headers.delete('if-modified-since');
+
+    handler(new Request(request.url, { method: 'GET', headers }), cache)
+      .then(async (response) => {
+        const { buffer } = await readBody(response.body, maxBodySize);
+        const captured =
+          buffer && engine.capture(response.status, toHeaderRecord(response.headers), buffer);
+        if (captured) {
+          fill.store(captured);
+        }
+      })
+      .catch((error) => console.error('Cache revalidation error:', error))
+      .then(() => fill.done());
+  };
+
+  const cacheRequest = async (
+    request: Request,
+    view: CacheRequest<Request, Response>,
+    scope: CacheScope,
+    handler: WebHandler
+  ): Promise<Response> => {
+    const headers = new Headers();
+    const target = headerTarget(headers);
+    const cacheKey = engine.getCacheKey(view);
+    engine.setVary(target);
+
+    let lookup: ResponseLookup;
+    try {
+      lookup = await engine.lookup(view, scope, cacheKey);
+    } catch (error) {
+      console.error('Auto-cache error:', error);
+      engine.setResult(target, 'ERROR');
+      return withHeaders(await handler(request, scope.cache), headers);
+    }
+
+    if (lookup.status === 'error') {
+      throw lookup.error;
+    }
+
+    if (lookup.status === 'hit') {
+      // Cache HIT - return cached data immediately
+      engine.setResult(target, 'HIT', cacheKey, lookup.tier);
+      return sendEntry(view, headers, lookup.entry);
+    }
+
+    if (lookup.status === 'stale') {
+      // Serve stale data now, refresh it in the background
+      engine.setResult(target, 'STALE', cacheKey);
+      lookup
+        .revalidate()
+        .then((fill) => fill && revalidate(request, handler, scope.cache, fill))
+        .catch((error) => console.error('Auto-cache error:', error));
+      return sendEntry(view, headers, lookup.entry);
+    }
+
+    // Cache MISS - call the handler and store its response
+    const { fill, fallback } = lookup;
+    engine.setResult(target, 'MISS', cacheKey);
+
+    try {
+      let response: Response | null = null;
+      try {
+        response = await handler(request, scope.cache);
+      } catch (error) {
+        if (!fallback) {
+          throw error;
+        }
+      }
+
+      if (fallback && (!response || response.status >= 500)) {
+        // The last good response replaces the error, and is never stored
+        engine.setResult(target, 'STALE');
+        return replay(toCachedResponse(fallback), headers);
+      }
+
+      const { buffer, body } = await readBody(response!.body, maxBodySize);
+      const captured =
+        buffer && engine.capture(response!.status, toHeaderRecord(response!.headers), buffer);
+      if (captured) {
+        engine.setValidators(target, captured);
+        fill.store(captured);
+      }
+      engine.setFreshHeaders(target, response!.status);
+
+      return withHeaders(response!, headers, body);
+    } finally {
+      fill.done();
+    }
+  };
+
+  return (handler: WebHandler) => async (request: Request) => {
+    // The cache service is scoped to the request's tenant
+    const scope = engine.scope(request);
+
+    let response: Response | undefined;
+    const view = toCacheRequest(request, () => response);
+    const action = engine.getAction(view);
+
+    // =========================================================
+    // AUTO-CACHE for GET requests
+    // =========================================================
+
+    if (action === 'cache') {
+      response = await cacheRequest(request, view, scope, handler);
+      engine.recordResult(view.route, response.headers.get('X-Cache'));
+      return response;
+    }
+
+    if (action !== 'invalidate') {
+      return handler(request, scope.cache);
+    }
+
+    // =========================================================
+    // INVALIDATION for Mutation requests
+    // =========================================================
+
+    // The handler consumes the body; a copy is read for {body.*} placeholders
+    const copy = isJson(request.headers) ? request.clone() : null;
+    response = await handler(request, scope.cache);
+    if (response.status < 200 || response.status >= 300) {
+      return response;
+    }
+
+    view.body = copy ? await copy.json().catch(() => undefined) : undefined;
+    const data = isJson(response.headers)
+      ? await response
+          .clone()
+          .json()
+          .catch(() => undefined)
+      : undefined;
+    const performInvalidation = engine.invalidate.bind(engine, view, scope, response.status, data);
+
+    if (invalidate.afterResponse) {
+      setImmediate(performInvalidation);
+    } else {
+      await performInvalidation();
+    }
+    return response;
+  };
+}
+
+/**
+ * Serve a Web-standard handler from `http.createServer`
+ *
+ * @param handler - Handler receiving a Request for each incoming request
+ * @returns node:http request listener
+ */
+export function toRequestListener(
+  handler: (request: Request) => Promise<Response>
+): (req: IncomingMessage, res: ServerResponse) => void {
+  return (req, res) => {
+    const headers = new Headers();
+    for (const name of Object.keys(req.headers)) {
+      const value = req.headers[name];
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (item !== undefined) {
+          headers.append(name, item);
+        }
+      }
+    }
+
+    const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+    const request = new Request(
+      new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`),
+      {
+        method: req.method,
+        headers,
+        body: hasBody ? (Readable.toWeb(req) as ReadableStream) : undefined,
+        duplex: 'half',
+      } as RequestInit
+    );
+
+    handler(request)
+      .then((response) => {
+        res.statusCode = response.status;
+        response.headers.forEach((value, name) => {
+          if (name !== 'set-cookie') {
+            res.setHeader(name, value);
+          }
+        });
+        const cookies = response.headers.getSetCookie();
+        if (cookies.length > 0) {
+          res.setHeader('Set-Cookie', cookies);
+        }
+
+        if (!response.body) {
+          res.end();
+          return;
+        }
+        Readable.fromWeb(response.body).pipe(res);
+      })
+      .catch((error) => {
+        console.error('Request handler error:', error);
+        if (!res.headersSent) {
+          res.statusCode = 500;
+        }
+        res.end();
+      });
+  };
+}
+
+/**
+ * Framework-neutral view of a Web request
+ * @private
+ */
+function toCacheRequest(
+  request: Request,
+  getResponse: () => Response | undefined
+): CacheRequest<Request, Response> {
+  const url = new URL(request.url);
+  const query: Record<string, string> = {};
+  url.searchParams.forEach((value, name) => {
+    query[name] = value;
+  });
+
+  return {
+    req: request,
+    // Set once the handler has responded, before invalidation runs
+    get res() {
+      return getResponse() as Response;
+    },
+    method: request.method,
+    path: url.pathname,
+    url: `${url.pathname}${url.search}`,
+    route: '*',
+    query,
+    headers: toHeaderRecord(request.headers),
+  };
+}
+
+/**
+ * Headers as a header target
+ * @private
+ */
+function headerTarget(headers: Headers): HeaderTarget {
+  return {
+    getHeader: (name) => headers.get(name) ?? undefined,
+    setHeader: (name, value) => {
+      headers.delete(name);
+      for (const item of Array.isArray(value) ? value : [value]) {
+        headers.append(name, String(item));
+      }
+    },
+  };
+}
+
+/**
+ * Headers as a Node-style record with lowercase names
+ * @private
+ */
+function toHeaderRecord(headers: Headers): Record<string, string> {
+  const record: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    record[name] = value;
+  });
+  return record;
+}
+
+/**
+ * Response for a cached response, with the cache headers
+ * @private
+ */
+function replay(response: CachedResponse, headers: Headers): Response {
+  for (const name of Object.keys(response.headers)) {
+    headerTarget(headers).setHeader(name, response.headers[name]);
+  }
+  const body = NULL_BODY_STATUSES.includes(response.status)
+    ? null
+    : Buffer.from(response.body, response.encoding);
+  return new Response(body, { status: response.status, headers });
+}
+
+/**
+ * Copy of a handler's response with the cache headers added
+ * Responses from fetch() have immutable headers, so a new Response is built.
+ * @private
+ */
+function withHeaders(
+  response: Response,
+  headers: Headers,
+  body: ReadableStream<Uint8Array> | Buffer | null = response.body
+): Response {
+  const merged = new Headers(response.headers);
+  headers.forEach((value, name) => merged.set(name, value));
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: merged,
+  });
+}
+
+/**
+ * Buffer a response body up to `limit` bytes
+ * Larger bodies are not buffered: the returned stream replays what was read, then the rest.
+ * @private
+ */
+async function readBody(
+  stream: ReadableStream<Uint8Array> | null,
+  limit: number
+): Promise<{ buffer: Buffer | null; body: ReadableStream<Uint8Array> | Buffer | null }> {
+  if (!stream) {
+    return { buffer: Buffer.alloc(0), body: null };
+  }
+
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      const buffer = Buffer.concat(chunks);
+      return { buffer, body: buffer };
+    }
+
+    chunks.push(value);
+    size += value.length;
+    if (size > limit) {
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          chunks.forEach((chunk) => controller.enqueue(chunk));
+        },
+        async pull(controller) {
+          const next = await reader.read();
+          if (next.done) {
+            controller.close();
+          } else {
+            controller.enqueue(next.value);
+          }
+        },
+        cancel(reason) {
+          return reader.cancel(reason);
+        },
+      });
+      return { buffer: null, body };
+    }
+  }
+}
+
+/**
+ * True when a message declares a JSON body
+ * @private
+ */
+function isJson(headers: Headers): boolean {
+  return (headers.get('content-type') || '').includes('json');
+}
@@ -0,0 +1,98 @@
+import { Redis, Cluster } from 'ioredis';
+import { AuditSink, InvalidationAuditEvent } from './types';
+
+/**
+ * Default stream audit events are appended to
+ */
+const DEFAULT_STREAM = 'cache:audit';
+
+/**
+ * Default approximate number of events kept in the stream
+ */
+const DEFAULT_MAX_LENGTH = 10000;
+
+/**
+ * Options of RedisStreamAuditSink
+ */
+export interface RedisStreamAuditOptions {
+  /**
+   * Stream key
+   * @default 'cache:audit'
+   */
+  stream?: string;
+
+  /**
+   * Approximate number of events kept (`XADD MAXLEN ~`); 0 keeps every event
+   * @default 10000
+   */
+  maxLength?: number;
+}
+
+/**
+ * Audit sink appending invalidation events to a Redis Stream
+ *
+ * Each event is one stream entry. Scalar fields are stored as strings; `targets` and `keys`
+ * are JSON-encoded.
+ *
+ * @example
+ * ```typescript
+ * app.use(cacheMiddleware(redis, {
+ *   audit: { sink: new RedisStreamAuditSink(redis, { stream: 'cache:audit' }) },
+ * }));
+ *
+ * // redis-cli XREVRANGE cache:audit + - COUNT 10
+ * ```
+ */
+export class RedisStreamAuditSink implements AuditSink {
+  private redis: Redis | Cluster;
+  private stream: string;
+  private maxLength: number;
+
+  /**
+   * Create a new RedisStreamAuditSink
+   *
+   * @param redisClient - Redis or Cluster instance
+   * @param options - Stream key and length cap
+   */
+  constructor(redisClient: Redis | Cluster, options: RedisStreamAuditOptions = {}) {
+    this.redis = redisClient;
+    this.stream = options.stream || DEFAULT_STREAM;
+    this.maxLength = options.maxLength ?? DEFAULT_MAX_LENGTH;
+  }
+
+  async write(event: InvalidationAuditEvent): Promise<void> {
+    const trim = this.maxLength > 0 ? ['MAXLEN', '~', this.maxLength] : [];
+    await this.redis.xadd(this.stream, ...trim, '*', ...toStreamFields(event));
+  }
+}
+
+/**
+ * Write an event to a sink, logging failures instead of throwing
+ *
+ * @param sink - Audit sink
+ * @param event - Invalidation event
+ */
+export async function writeAuditEvent(
+  sink: AuditSink,
+  event: InvalidationAuditEvent
+): Promise<void> {
+  try {
+    await sink.write(event);
+  } catch (error) {
+    console.error('Cache audit write error:', error);
+  }
+}
+
+/**
+ * Flatten an event into stream field/value pairs, skipping unset fields
+ * @private
+ */
+function toStreamFields(event: InvalidationAuditEvent): string[] {
+  const fields: string[] = [];
+  for (const [name, value] of Object.entries(event)) {
+    if (value !== undefined) {
+      fields.push(name, typeof value === 'object' ? JSON.stringify(value) : String(value));
+    }
+  }
+  return fields;
+}
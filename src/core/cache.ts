@@ -1,128 +1,710 @@
 import { Redis, Cluster } from 'ioredis';
-import { ICacheService } from './types';
+import {
+  CacheKey,
+  CacheLookup,
+  CacheStore,
+  CacheServiceOptions,
+  CacheValidator,
+  ICacheService,
+  InvalidationMessage,
+  InvalidationPreview,
+  InvalidationTargets,
+  L1Config,
+  L1Stats,
+  ReadOptions,
+  StampedeConfig,
+  TagSweeperConfig,
+  TenantQuota,
+  TenantUsage,
+  VersioningConfig,
+} from './types';
+import { CompressionEnvelope } from './compression';
+import { LocalCache, escapeGlob, escapeRegExp } from './local-cache';
+import { InvalidationBus } from './invalidation-bus';
+import { CacheMetrics, startTimer } from './metrics';
+import {
+  LockTimeoutError,
+  acquireLock,
+  releaseLock,
+  resolveStampedeConfig,
+  singleFlight,
+} from './lock';
+import { toCacheStore } from './redis-store';
+import { runValidator } from './keys';
+import { getTenantNamespace } from './tenant';
+import { TagCycleError, assertAcyclic, expandTags } from './tag-graph';
+import { getPartitionTag } from './partition';
+
+/**
+ * Pending getOrSet fetches per store, shared by every CacheService in the process
+ */
+const inflightByClient = new WeakMap<CacheStore, Map<string, Promise<any>>>();
+
+/**
+ * Last generation read per namespace and store, shared by every CacheService in the process
+ */
+interface CachedGeneration {
+  value: number;
+  readAt: number;
+}
+
+const generationsByClient = new WeakMap<CacheStore, Map<string, CachedGeneration>>();
+
+/**
+ * Default milliseconds a namespace generation is reused before it is read again
+ */
+const DEFAULT_VERSION_REFRESH_MS = 1000;
+
+/**
+ * Tag sweeper timers per namespace and store, so each namespace is swept once per process
+ */
+const sweepersByClient = new WeakMap<CacheStore, Map<string, NodeJS.Timeout>>();
+
+/**
+ * Default milliseconds between tag sweeps
+ */
+const DEFAULT_SWEEP_INTERVAL_MS = 60000;
+
+/**
+ * Keys deleted per batch when deleting by pattern
+ */
+const DELETE_BATCH_SIZE = 100;
+
+/**
+ * L1 tier and its invalidation bus per store, shared by every CacheService in the process
+ * Torn down when the last service holding a reference closes; tenant scopes borrow their
+ * parent's reference and stop using the tier once it is closed.
+ */
+interface LocalTier {
+  local: LocalCache;
+  bus: InvalidationBus | null;
+  refs: number;
+  closed: boolean;
+}
+
+const localTierByClient = new WeakMap<CacheStore, LocalTier>();
+
+/**
+ * Publish-only invalidation buses per store and channel, used by services without an L1 tier
+ */
+const publishersByClient = new WeakMap<CacheStore, Map<string, InvalidationBus>>();
+
+/**
+ * Key string of a plain or typed cache key
+ * @private
+ */
+function keyName(key: string | CacheKey): string {
+  return typeof key === 'string' ? key : key.key;
+}
+
+/**
+ * Get or create the L1 tier for a store, adding a reference to it
+ * @private
+ */
+function getLocalTier(store: CacheStore, config: L1Config): LocalTier {
+  let tier = localTierByClient.get(store);
+
+  if (!tier) {
+    const local = new LocalCache(config.maxEntries, config.ttl);
+    let bus: InvalidationBus | null = null;
+
+    if (config.pubsub !== false) {
+      bus = new InvalidationBus(store, config.channel);
+      bus.subscribe((message) => {
+        local.delete(message.keys || []);
+        for (const pattern of message.patterns || []) {
+          local.deleteMatching(pattern);
+        }
+      });
+    }
+
+    tier = { local, bus, refs: 0, closed: false };
+    localTierByClient.set(store, tier);
+  }
+
+  tier.refs++;
+  return tier;
+}
+
+/**
+ * Get or create the publish-only invalidation bus for a store and channel
+ * @private
+ */
+function getPublisher(store: CacheStore, channel: string): InvalidationBus {
+  let publishers = publishersByClient.get(store);
+  if (!publishers) {
+    publishers = new Map();
+    publishersByClient.set(store, publishers);
+  }
+
+  let bus = publishers.get(channel);
+  if (!bus) {
+    bus = new InvalidationBus(store, channel);
+    publishers.set(channel, bus);
+  }
+  return bus;
+}
 
 /**
  * Cache service providing Redis operations with namespacing, compression, and tagging
+ * (or the same operations on any CacheStore, such as the in-process MemoryStore)
  *
  * Features:
  * - Automatic key namespacing to avoid collisions
- * - Data compression for large values
- * - Tag-based cache invalidation
- * - Pattern-based deletion with SCAN (non-blocking)
+ * - Data compression for large values (gzip, brotli or custom codecs)
+ * - Tag-based cache invalidation, following tag dependencies
+ * - Pattern-based deletion with SCAN (non-blocking, across all Cluster masters)
+ * - Cache stampede protection (single-flight and distributed locks)
+ * - Optional in-process L1 tier kept coherent over Redis pub/sub
+ * - Optional Prometheus-compatible metrics
+ * - Multi-tenant scoping with per-tenant quotas and flush
+ * - Generation-based versioning for O(1) namespace invalidation
  * - TTL management
  * - Health checks
  */
 export class CacheService implements ICacheService {
-  private redis: Redis | Cluster;
+  private store: CacheStore;
   private defaultTTL: number;
   private namespace: string;
-  private compressionThreshold: number;
+  private envelope: CompressionEnvelope;
+  private stampede: Required<StampedeConfig>;
+  private inflight: Map<string, Promise<any>>;
+  private tier: LocalTier | null;
+  private ownsTier: boolean;
+  private metrics: CacheMetrics | null;
+  private options: CacheServiceOptions;
+  private baseNamespace: string;
+  private tenant: string | null = null;
+  private quota: TenantQuota | null = null;
+  private versioning: VersioningConfig | null;
+  private generations: Map<string, CachedGeneration>;
+  private hashTags: boolean;
 
   /**
    * Create a new CacheService instance
    *
-   * @param redisClient - Redis or Cluster instance
+   * @param redisClient - Redis, Cluster or CacheStore instance
    * @param namespace - Cache namespace for key isolation (default: 'app')
    * @param defaultTTL - Default time to live in seconds (default: 3600)
+   * @param options - Optional settings (compression, stampede protection, L1 tier, metrics)
    */
-  constructor(redisClient: Redis | Cluster, namespace: string = 'app', defaultTTL: number = 3600) {
-    this.redis = redisClient;
+  constructor(
+    redisClient: Redis | Cluster | CacheStore,
+    namespace: string = 'app',
+    defaultTTL: number = 3600,
+    options: CacheServiceOptions = {}
+  ) {
+    this.store = toCacheStore(redisClient);
     this.defaultTTL = defaultTTL;
     this.namespace = namespace;
-    this.compressionThreshold = 1024; // Compress data larger than 1KB
+    this.baseNamespace = namespace;
+    this.options = options;
+    this.envelope = new CompressionEnvelope(
+      options.compression,
+      options.serializer,
+      options.serializers
+    );
+    this.stampede = resolveStampedeConfig(options.stampede);
+
+    let inflight = inflightByClient.get(this.store);
+    if (!inflight) {
+      inflight = new Map();
+      inflightByClient.set(this.store, inflight);
+    }
+    this.inflight = inflight;
+
+    let generations = generationsByClient.get(this.store);
+    if (!generations) {
+      generations = new Map();
+      generationsByClient.set(this.store, generations);
+    }
+    this.generations = generations;
+    this.versioning = options.versioning || null;
+    this.hashTags = options.hashTags === true;
+
+    if (options.tagSweeper) {
+      this.startTagSweeper(options.tagSweeper);
+    }
+
+    this.tier = options.l1 ? getLocalTier(this.store, options.l1) : null;
+    this.ownsTier = this.tier !== null;
+    this.metrics = options.metrics || null;
+  }
+
+  /**
+   * L1 tier used by this service; null when disabled or closed
+   * @private
+   */
+  private get local(): LocalCache | null {
+    return this.tier && !this.tier.closed ? this.tier.local : null;
   }
 
   /**
    * Generate namespaced cache key
+   * With versioning enabled, the schema version and current generation are embedded
+   * (`<ns>:s<schema>:g<generation>:<key>`) so bumped generations become unreachable
    * @private
    */
-  private generateKey(key: string, namespace?: string): string {
+  private async generateKey(key: string | CacheKey, namespace?: string): Promise<string> {
     const ns = namespace || this.namespace;
-    return `${ns}:${key}`;
+    if (!this.versioning) {
+      return `${this.keyPrefix(ns)}:${keyName(key)}`;
+    }
+
+    return `${this.generationPrefix(ns, await this.getVersion(ns))}${keyName(key)}`;
   }
 
   /**
-   * Compress data if it exceeds threshold
-   * Uses base64 encoding for simplicity
+   * Prefix shared by the keys of one generation of a namespace
    * @private
    */
-  private compress(data: string): string {
-    if (data.length > this.compressionThreshold) {
-      return `compressed:${Buffer.from(data).toString('base64')}`;
+  private generationPrefix(namespace: string, generation: number): string {
+    const schema =
+      this.versioning?.schemaVersion !== undefined ? `s${this.versioning.schemaVersion}:` : '';
+    return `${this.keyPrefix(namespace)}:${schema}g${generation}:`;
+  }
+
+  /**
+   * Generate namespaced keys for many cache keys
+   * Sequential so the namespace generation is read at most once
+   * @private
+   */
+  private async generateKeys(keys: Array<string | CacheKey>): Promise<string[]> {
+    const fullKeys: string[] = [];
+    for (const key of keys) {
+      fullKeys.push(await this.generateKey(key));
     }
-    return data;
+    return fullKeys;
   }
 
   /**
-   * Decompress data if it was compressed
+   * Namespaced key that is not versioned (locks, single-flight)
    * @private
    */
-  private decompress(data: string): string {
-    if (data.startsWith('compressed:')) {
-      return Buffer.from(data.slice(11), 'base64').toString('utf-8');
+  private namespacedKey(key: string): string {
+    return `${this.keyPrefix(this.namespace)}:${key}`;
+  }
+
+  /**
+   * Key prefix of a namespace; wrapped in a `{hash tag}` when hashTags is enabled
+   * so all of its keys land in one Cluster slot
+   * @private
+   */
+  private keyPrefix(namespace: string): string {
+    return this.hashTags ? `{${namespace}}` : namespace;
+  }
+
+  /**
+   * Sweep this service's namespace on an interval, once per namespace and store
+   * @private
+   */
+  private startTagSweeper(config: TagSweeperConfig): void {
+    let sweepers = sweepersByClient.get(this.store);
+    if (!sweepers) {
+      sweepers = new Map();
+      sweepersByClient.set(this.store, sweepers);
+    }
+    if (sweepers.has(this.namespace)) {
+      return;
+    }
+
+    const timer = setInterval(() => {
+      void this.sweepTags(config.count);
+    }, config.interval || DEFAULT_SWEEP_INTERVAL_MS);
+    // Never keep the process alive just to sweep
+    timer.unref();
+    sweepers.set(this.namespace, timer);
+  }
+
+  /**
+   * Stop counting deleted keys against this tenant's quota
+   * @private
+   */
+  private async releaseQuota(fullKeys: string[]): Promise<void> {
+    if (this.quota) {
+      await this.store.releaseQuota(this.keyPrefix(this.namespace), fullKeys);
+    }
+  }
+
+  /**
+   * Drop keys from the L1 tier and tell other instances to do the same
+   * Services without a tier still publish when `invalidationChannel` is set, so the L1 tiers
+   * of other processes see their writes.
+   * @private
+   */
+  private broadcastInvalidation(message: Omit<InvalidationMessage, 'origin'>): void {
+    const tier = localTierByClient.get(this.store);
+    let bus: InvalidationBus | null = null;
+
+    if (tier) {
+      tier.local.delete(message.keys || []);
+      for (const pattern of message.patterns || []) {
+        tier.local.deleteMatching(pattern);
+      }
+      bus = tier.bus;
+    } else if (this.options.invalidationChannel) {
+      bus = getPublisher(this.store, this.options.invalidationChannel);
+    }
+
+    if (bus) {
+      bus
+        .publish(message)
+        .catch((error) => console.error('Cache invalidation publish error:', error));
+    }
+  }
+
+  /**
+   * Validator for a read: the per-call one, then the typed key's, then the longest
+   * matching prefix in `options.validators`
+   * @private
+   */
+  private resolveValidator(key: string | CacheKey, options?: ReadOptions): CacheValidator | null {
+    if (options && options.validate) {
+      return options.validate;
+    }
+    if (typeof key !== 'string' && key.validate) {
+      return key.validate;
+    }
+
+    const validators = this.options.validators;
+    if (!validators) {
+      return null;
+    }
+
+    const name = keyName(key);
+    let match: string | null = null;
+    for (const prefix of Object.keys(validators)) {
+      if (name.startsWith(prefix) && (match === null || prefix.length > match.length)) {
+        match = prefix;
+      }
+    }
+    return match === null ? null : validators[match];
+  }
+
+  /**
+   * Validate a value read from the cache, evicting the entry if it is rejected
+   * @private
+   * @returns Validated value, or null if the entry was rejected
+   */
+  private async validateValue(
+    fullKey: string,
+    value: any,
+    validator: CacheValidator,
+    namespace: string
+  ): Promise<any> {
+    try {
+      return runValidator(validator, value);
+    } catch (error) {
+      console.error(`Cache validation failed for key ${fullKey}, evicting entry:`, error);
+      await this.store.del([fullKey]);
+      this.broadcastInvalidation({ keys: [fullKey] });
+      await this.releaseQuota([fullKey]);
+      if (this.metrics) {
+        this.metrics.recordInvalidation(namespace, 'validation', 1);
+      }
+      return null;
     }
-    return data;
   }
 
   /**
    * Get cached value by key
    *
-   * @param key - Cache key
+   * @param key - Cache key or typed key from `defineKey`
+   * @param namespace - Optional namespace override
+   * @param options - Per-call validator
+   * @returns Cached value or null if not found or rejected by a validator
+   */
+  async get<T = any>(
+    key: string | CacheKey<T>,
+    namespace?: string,
+    options?: ReadOptions<T>
+  ): Promise<T | null> {
+    const { value } = await this.lookup(key, namespace, options);
+    return value;
+  }
+
+  /**
+   * Get cached value by key along with the tier that served it
+   *
+   * @param key - Cache key or typed key from `defineKey`
    * @param namespace - Optional namespace override
-   * @returns Cached value or null if not found
+   * @param options - Per-call validator
+   * @returns Cached value (or null) and 'l1' / 'l2' tier attribution
    */
-  async get(key: string, namespace?: string): Promise<any> {
-    const fullKey = this.generateKey(key, namespace);
+  async lookup<T = any>(
+    key: string | CacheKey<T>,
+    namespace?: string,
+    options?: ReadOptions<T>
+  ): Promise<CacheLookup<T>> {
     try {
-      const data = await this.redis.get(fullKey);
-      if (data) {
-        const decompressed = this.decompress(data);
-        return JSON.parse(decompressed);
+      const fullKey = await this.generateKey(key, namespace);
+      let result = await this.readTiers(fullKey, namespace || this.baseNamespace);
+
+      const validator = this.resolveValidator(key, options);
+      if (validator && result.value !== null) {
+        const value = await this.validateValue(
+          fullKey,
+          result.value,
+          validator,
+          namespace || this.baseNamespace
+        );
+        result = value === null ? { value: null, tier: null } : { value, tier: result.tier };
       }
-      return null;
+
+      if (this.metrics) {
+        this.metrics.recordLookup(namespace || this.baseNamespace, result.tier || 'miss');
+      }
+      return result;
     } catch (error) {
-      console.error(`Cache get error for key ${fullKey}:`, error);
-      return null;
+      console.error(`Cache get error for key ${keyName(key)}:`, error);
+      return { value: null, tier: null };
+    }
+  }
+
+  /**
+   * Read a key from L1, falling back to Redis
+   * @private
+   */
+  private async readTiers(fullKey: string, namespace: string): Promise<CacheLookup> {
+    if (this.local) {
+      const local = this.local.get(fullKey);
+      if (local !== undefined) {
+        return { value: this.envelope.deserialize(local), tier: 'l1' };
+      }
+    }
+
+    const stop = startTimer();
+    // Fetch the remaining TTL too so the L1 copy never outlives Redis
+    const [stored] = await this.store.getMany([fullKey], this.local !== null);
+
+    if (this.metrics) {
+      this.metrics.observeRedis('get', namespace, stop());
+    }
+
+    if (!stored) {
+      return { value: null, tier: null };
+    }
+
+    const serialized = this.envelope.decode(stored.data);
+    if (this.local) {
+      this.local.set(fullKey, serialized, stored.pttl > 0 ? stored.pttl / 1000 : undefined);
+    }
+    return { value: this.envelope.deserialize(serialized), tier: 'l2' };
+  }
+
+  /**
+   * Get many cached values in one round-trip (one per hash slot on a Cluster)
+   *
+   * @param keys - Cache keys or typed keys from `defineKey`
+   * @param options - Per-call validator, applied to every key
+   * @returns Cached values, null for misses and rejected entries, in the order of `keys`
+   */
+  async mget<T = any>(
+    keys: Array<string | CacheKey<T>>,
+    options?: ReadOptions<T>
+  ): Promise<Array<T | null>> {
+    if (keys.length === 0) {
+      return [];
+    }
+
+    try {
+      const fullKeys = await this.generateKeys(keys);
+      const values: any[] = new Array(keys.length).fill(null);
+      const tiers: string[] = new Array(keys.length).fill('miss');
+      const pending: number[] = [];
+
+      fullKeys.forEach((fullKey, index) => {
+        const local = this.local ? this.local.get(fullKey) : undefined;
+        if (local !== undefined) {
+          values[index] = this.envelope.deserialize(local);
+          tiers[index] = 'l1';
+        } else {
+          pending.push(index);
+        }
+      });
+
+      if (pending.length > 0) {
+        const stop = startTimer();
+        // Fetch the remaining TTL too so the L1 copy never outlives Redis
+        const results = await this.store.getMany(
+          pending.map((index) => fullKeys[index]),
+          this.local !== null
+        );
+        if (this.metrics) {
+          this.metrics.observeRedis('mget', this.baseNamespace, stop());
+        }
+
+        results.forEach((stored, i) => {
+          if (!stored) {
+            return;
+          }
+
+          const serialized = this.envelope.decode(stored.data);
+          if (this.local) {
+            const { pttl } = stored;
+            this.local.set(fullKeys[pending[i]], serialized, pttl > 0 ? pttl / 1000 : undefined);
+          }
+          values[pending[i]] = this.envelope.deserialize(serialized);
+          tiers[pending[i]] = 'l2';
+        });
+      }
+
+      for (let index = 0; index < keys.length; index++) {
+        const validator = this.resolveValidator(keys[index], options);
+        if (validator && values[index] !== null) {
+          values[index] = await this.validateValue(
+            fullKeys[index],
+            values[index],
+            validator,
+            this.baseNamespace
+          );
+          if (values[index] === null) {
+            tiers[index] = 'miss';
+          }
+        }
+      }
+
+      if (this.metrics) {
+        for (const tier of tiers) {
+          this.metrics.recordLookup(this.baseNamespace, tier);
+        }
+      }
+
+      return values;
+    } catch (error) {
+      console.error('Cache mget error:', error);
+      return keys.map(() => null);
     }
   }
 
   /**
    * Set cache value with optional TTL and tags
    *
-   * @param key - Cache key
+   * @param key - Cache key or typed key from `defineKey`
    * @param value - Value to cache (will be JSON serialized)
    * @param ttl - Time to live in seconds (optional)
    * @param tags - Tags for invalidation (optional)
    * @returns Success status
    */
-  async set(key: string, value: any, ttl?: number, tags?: string[]): Promise<boolean> {
-    const fullKey = this.generateKey(key);
+  async set<T = any>(
+    key: string | CacheKey<T>,
+    value: T,
+    ttl?: number,
+    tags?: string[]
+  ): Promise<boolean> {
     const expiry = ttl || this.defaultTTL;
 
     try {
-      const serialized = JSON.stringify(value);
-      const data = this.compress(serialized);
+      const fullKey = await this.generateKey(key);
+      const serialized = this.envelope.serialize(value);
+      const data = this.envelope.encode(serialized);
 
-      const pipeline = this.redis.pipeline();
-      pipeline.setex(fullKey, expiry, data);
+      // Refuse writes that would take the tenant over its quota
+      if (!(await this.reserveQuota(fullKey, data, expiry))) {
+        return false;
+      }
 
       // Associate cache key with tags for invalidation
-      if (tags && tags.length > 0) {
-        for (const tag of tags) {
-          const tagKey = this.generateKey(`tag:${tag}`);
-          pipeline.sadd(tagKey, fullKey);
-          pipeline.expire(tagKey, expiry);
-        }
+      const tagKeys: string[] = [];
+      for (const tag of tags || []) {
+        tagKeys.push(await this.generateKey(`tag:${tag}`));
+      }
+
+      const stop = startTimer();
+      await this.store.setMany([[fullKey, data]], expiry, tagKeys);
+      if (this.metrics) {
+        this.metrics.observeRedis('set', this.baseNamespace, stop());
+      }
+
+      // Other instances must drop their L1 copy of the previous value
+      this.broadcastInvalidation({ keys: [fullKey] });
+      if (this.local) {
+        this.local.set(fullKey, serialized, expiry);
       }
 
-      await pipeline.exec();
       return true;
     } catch (error) {
-      console.error(`Cache set error for key ${fullKey}:`, error);
+      console.error(`Cache set error for key ${keyName(key)}:`, error);
       return false;
     }
   }
 
+  /**
+   * Set many values with the same TTL and tags in one round-trip (one per hash slot on a Cluster)
+   *
+   * @param entries - Values by cache key (will be JSON serialized)
+   * @param ttl - Time to live in seconds (optional)
+   * @param tags - Tags for invalidation, applied to every entry (optional)
+   * @returns True if every entry was stored; false on error or if a quota refused some entries
+   */
+  async mset<T = any>(entries: Record<string, T>, ttl?: number, tags?: string[]): Promise<boolean> {
+    const expiry = ttl || this.defaultTTL;
+    const keys = Object.keys(entries);
+    if (keys.length === 0) {
+      return true;
+    }
+
+    try {
+      const fullKeys = await this.generateKeys(keys);
+      const writes: Array<[string, string | Buffer]> = [];
+      const written: Array<[string, string | Buffer]> = [];
+
+      for (let i = 0; i < keys.length; i++) {
+        const serialized = this.envelope.serialize(entries[keys[i]]);
+        const data = this.envelope.encode(serialized);
+        // Entries over the tenant's quota are skipped, the rest are still stored
+        if (await this.reserveQuota(fullKeys[i], data, expiry)) {
+          writes.push([fullKeys[i], data]);
+          written.push([fullKeys[i], serialized]);
+        }
+      }
+
+      if (writes.length > 0) {
+        const tagKeys: string[] = [];
+        for (const tag of tags || []) {
+          tagKeys.push(await this.generateKey(`tag:${tag}`));
+        }
+
+        const stop = startTimer();
+        await this.store.setMany(writes, expiry, tagKeys);
+        if (this.metrics) {
+          this.metrics.observeRedis('mset', this.baseNamespace, stop());
+        }
+
+        this.broadcastInvalidation({ keys: written.map(([fullKey]) => fullKey) });
+        if (this.local) {
+          for (const [fullKey, serialized] of written) {
+            this.local.set(fullKey, serialized, expiry);
+          }
+        }
+      }
+
+      return writes.length === keys.length;
+    } catch (error) {
+      console.error('Cache mset error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Account for a write against the tenant's quota
+   * @private
+   * @returns False if the quota refuses the write; always true without a quota
+   */
+  private async reserveQuota(
+    fullKey: string,
+    data: string | Buffer,
+    expiry: number
+  ): Promise<boolean> {
+    if (!this.quota) {
+      return true;
+    }
+
+    const size = Buffer.isBuffer(data) ? data.length : Buffer.byteLength(data);
+    const prefix = this.keyPrefix(this.namespace);
+    return this.store.reserveQuota(prefix, fullKey, expiry, size, this.quota);
+  }
+
   /**
    * Delete cached value by key
    *
@@ -130,19 +712,170 @@ export class CacheService implements ICacheService {
    * @param namespace - Optional namespace override
    * @returns Success status
    */
-  async del(key: string, namespace?: string): Promise<boolean> {
-    const fullKey = this.generateKey(key, namespace);
+  async del(key: string | CacheKey, namespace?: string): Promise<boolean> {
     try {
-      await this.redis.del(fullKey);
+      const fullKey = await this.generateKey(key, namespace);
+      const deleted = await this.store.del([fullKey]);
+      this.broadcastInvalidation({ keys: [fullKey] });
+      await this.releaseQuota([fullKey]);
+      if (this.metrics) {
+        this.metrics.recordInvalidation(namespace || this.baseNamespace, 'key', deleted);
+      }
       return true;
     } catch (error) {
-      console.error(`Cache delete error for key ${fullKey}:`, error);
+      console.error(`Cache delete error for key ${keyName(key)}:`, error);
       return false;
     }
   }
 
   /**
-   * Invalidate all cache entries associated with given tags
+   * Delete many cached values, grouped by hash slot on a Cluster
+   *
+   * @param keys - Cache keys
+   * @returns Number of entries deleted
+   */
+  async mdel(keys: Array<string | CacheKey>): Promise<number> {
+    if (keys.length === 0) {
+      return 0;
+    }
+
+    try {
+      const fullKeys = await this.generateKeys(keys);
+      const deleted = await this.store.del(fullKeys);
+      this.broadcastInvalidation({ keys: fullKeys });
+      await this.releaseQuota(fullKeys);
+      if (this.metrics) {
+        this.metrics.recordInvalidation(this.baseNamespace, 'key', deleted);
+      }
+      return deleted;
+    } catch (error) {
+      console.error('Cache mdel error:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Register tags to invalidate whenever a tag is invalidated
+   * Dependencies are transitive and stored alongside the cache (without expiry), so every
+   * instance sharing the store follows them.
+   *
+   * @example
+   * ```typescript
+   * await cache.addTagDependency('org:1', ['project:7', 'project:8']);
+   * await cache.addTagDependency('project:7', ['task:42']);
+   * await cache.invalidateByTags(['org:1']); // also invalidates project:7, project:8, task:42
+   * ```
+   *
+   * @param tag - Tag whose invalidation cascades
+   * @param dependents - Tags invalidated along with it
+   * @returns Success status
+   * @throws TagCycleError if the dependency would make a tag depend on itself
+   */
+  async addTagDependency(tag: string, dependents: string[]): Promise<boolean> {
+    try {
+      await assertAcyclic(tag, dependents, (tags) => this.readDependents(tags));
+      await this.store.addMembers(this.dependencyKey(tag), dependents);
+      return true;
+    } catch (error) {
+      if (error instanceof TagCycleError) {
+        throw error;
+      }
+      console.error(`Cache tag dependency error for tag ${tag}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Stop invalidating tags along with a tag
+   *
+   * @param tag - Tag whose invalidation cascades
+   * @param dependents - Tags to no longer invalidate with it
+   * @returns Success status
+   */
+  async removeTagDependency(tag: string, dependents: string[]): Promise<boolean> {
+    try {
+      await this.store.removeMembers(this.dependencyKey(tag), dependents);
+      return true;
+    } catch (error) {
+      console.error(`Cache tag dependency error for tag ${tag}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Preview invalidateByTags without deleting anything
+   *
+   * @param tags - Tags to invalidate
+   * @returns The tags that would be invalidated, dependents included, and the fully
+   * qualified keys that would be deleted
+   */
+  async previewInvalidateByTags(tags: string[]): Promise<InvalidationPreview> {
+    return this.previewInvalidation({ tags });
+  }
+
+  /**
+   * Preview delPattern without deleting anything
+   *
+   * @param pattern - Pattern to match (supports wildcards, e.g., 'list:*')
+   * @returns Fully qualified keys that would be deleted
+   */
+  async previewDelPattern(pattern: string): Promise<string[]> {
+    return (await this.previewInvalidation({ patterns: [pattern] })).keys;
+  }
+
+  /**
+   * Dry run of an invalidation: the exact keys that deleting the given tags (and their
+   * dependents), keys and patterns would remove right now
+   *
+   * @param targets - Tags, keys and patterns to invalidate
+   * @returns Tags that would be invalidated and the fully qualified keys that exist under them
+   */
+  async previewInvalidation(targets: InvalidationTargets): Promise<InvalidationPreview> {
+    const tags = await expandTags(targets.tags || [], (level) => this.readDependents(level));
+    const candidates = new Set<string>(await this.generateKeys(targets.keys || []));
+
+    for (const tag of tags) {
+      for (const key of await this.store.getMembers(await this.generateKey(`tag:${tag}`))) {
+        candidates.add(key);
+      }
+    }
+
+    // Tag sets and explicit keys may name expired entries; SCAN only returns live keys
+    const live = await Promise.all(Array.from(candidates, (key) => this.store.exists(key)));
+    const keys = Array.from(candidates).filter((_key, i) => live[i]);
+
+    for (const pattern of targets.patterns || []) {
+      for (const key of await this.store.scan(await this.generateKey(pattern))) {
+        if (!candidates.has(key)) {
+          candidates.add(key);
+          keys.push(key);
+        }
+      }
+    }
+
+    return { tags, keys };
+  }
+
+  /**
+   * Key of the set of tags depending on a tag
+   * Not versioned, so dependencies survive generation bumps
+   * @private
+   */
+  private dependencyKey(tag: string): string {
+    return this.namespacedKey(`tagdeps:${tag}`);
+  }
+
+  /**
+   * Direct dependents of each tag
+   * @private
+   */
+  private readDependents(tags: string[]): Promise<string[][]> {
+    return Promise.all(tags.map((tag) => this.store.getMembers(this.dependencyKey(tag))));
+  }
+
+  /**
+   * Invalidate all cache entries associated with given tags, and with the tags
+   * registered as their dependents (see addTagDependency)
    *
    * @param tags - Array of tags to invalidate
    * @returns Number of cache entries deleted
@@ -151,26 +884,24 @@ export class CacheService implements ICacheService {
     try {
       let totalDeleted = 0;
 
-      for (const tag of tags) {
-        const tagKey = this.generateKey(`tag:${tag}`);
-        const keys = await this.redis.smembers(tagKey);
+      for (const tag of await expandTags(tags, (level) => this.readDependents(level))) {
+        const tagKey = await this.generateKey(`tag:${tag}`);
+        // Taking the members and deleting the set is atomic, so entries tagged
+        // concurrently are never left without a tag set
+        const keys = await this.store.popTag(tagKey);
 
         if (keys.length > 0) {
-          const pipeline = this.redis.pipeline();
-
-          // Delete all keys associated with this tag
-          for (const key of keys) {
-            pipeline.del(key);
-          }
-
-          // Delete the tag set itself
-          pipeline.del(tagKey);
-
-          await pipeline.exec();
+          // Delete all keys associated with this tag, grouped by slot on a Cluster
+          await this.store.del(keys);
+          this.broadcastInvalidation({ keys });
+          await this.releaseQuota(keys);
           totalDeleted += keys.length;
         }
       }
 
+      if (this.metrics) {
+        this.metrics.recordInvalidation(this.baseNamespace, 'tags', totalDeleted);
+      }
       return totalDeleted;
     } catch (error) {
       console.error('Cache invalidation by tags error:', error);
@@ -178,6 +909,28 @@ export class CacheService implements ICacheService {
     }
   }
 
+  /**
+   * Invalidate every response cached for a user by auto-cache routes with `scope: 'user'`
+   * Entries of a tenant are invalidated through its service (`forTenant(id).invalidateUser`).
+   *
+   * @param userId - User id, as resolved by the route's identity extractor
+   * @returns Number of cache entries deleted
+   */
+  async invalidateUser(userId: string | number): Promise<number> {
+    return this.invalidateByTags([getPartitionTag('user', String(userId))]);
+  }
+
+  /**
+   * Invalidate every response cached for a session by auto-cache routes with
+   * `scope: 'session'` (e.g., on logout)
+   *
+   * @param sessionId - Session id, as resolved by the route's identity extractor
+   * @returns Number of cache entries deleted
+   */
+  async invalidateSession(sessionId: string): Promise<number> {
+    return this.invalidateByTags([getPartitionTag('session', sessionId)]);
+  }
+
   /**
    * Delete all keys matching a pattern using SCAN (non-blocking)
    *
@@ -185,86 +938,308 @@ export class CacheService implements ICacheService {
    * @returns Number of keys deleted
    */
   async delPattern(pattern: string): Promise<number> {
-    const fullPattern = this.generateKey(pattern);
     try {
-      let cursor = '0';
-      const keysToDelete: string[] = [];
-
-      // Use SCAN to find all matching keys (non-blocking)
-      do {
-        const [newCursor, keys] = await this.redis.scan(cursor, 'MATCH', fullPattern, 'COUNT', 100);
-        cursor = newCursor;
-        keysToDelete.push(...keys);
-      } while (cursor !== '0');
-
-      // Delete keys in batches
-      if (keysToDelete.length > 0) {
-        const batchSize = 100;
-        let totalDeleted = 0;
-
-        for (let i = 0; i < keysToDelete.length; i += batchSize) {
-          const batch = keysToDelete.slice(i, i + batchSize);
-          await this.redis.del(...batch);
-          totalDeleted += batch.length;
-        }
+      return await this.deleteMatching(await this.generateKey(pattern), 'pattern');
+    } catch (error) {
+      console.error('Cache pattern deletion error:', error);
+      return 0;
+    }
+  }
 
-        return totalDeleted;
-      }
+  /**
+   * SCAN for keys matching a fully qualified pattern and delete them in batches
+   * On a Cluster every master is scanned and deletes are grouped by slot
+   * @private
+   */
+  private async deleteMatching(fullPattern: string, method: string): Promise<number> {
+    // Use SCAN to find all matching keys (non-blocking)
+    const keysToDelete = await this.store.scan(fullPattern);
 
+    if (keysToDelete.length === 0) {
       return 0;
+    }
+
+    for (let i = 0; i < keysToDelete.length; i += DELETE_BATCH_SIZE) {
+      const batch = keysToDelete.slice(i, i + DELETE_BATCH_SIZE);
+      await this.store.del(batch);
+      await this.releaseQuota(batch);
+    }
+    const totalDeleted = keysToDelete.length;
+
+    this.broadcastInvalidation({ patterns: [fullPattern] });
+    if (this.metrics) {
+      this.metrics.recordInvalidation(this.baseNamespace, method, totalDeleted);
+    }
+
+    return totalDeleted;
+  }
+
+  /**
+   * Get a service scoped to one tenant
+   * Its keys, tags and patterns resolve under `<namespace>:tenant:<id>:`, and its writes
+   * are checked against `options.tenantQuota`.
+   *
+   * @param tenantId - Tenant identifier
+   * @returns Tenant-scoped CacheService sharing this service's client and settings
+   */
+  forTenant(tenantId: string): CacheService {
+    const scoped = new CacheService(
+      this.store,
+      getTenantNamespace(this.baseNamespace, tenantId),
+      this.defaultTTL,
+      // Tenant tag sets are covered by the sweeper of the base namespace; scopes are not
+      // closed, so they borrow this service's L1 tier instead of holding a reference
+      { ...this.options, tagSweeper: undefined, l1: undefined }
+    );
+    const { tenantQuota } = this.options;
+
+    scoped.tier = this.tier;
+    scoped.baseNamespace = this.baseNamespace;
+    scoped.tenant = tenantId;
+    scoped.quota =
+      tenantQuota && (tenantQuota.maxKeys || tenantQuota.maxBytes) ? tenantQuota : null;
+    return scoped;
+  }
+
+  /**
+   * Delete every key of a tenant (entries, tag sets, locks and quota usage)
+   * Uses SCAN on the tenant's prefix, so other tenants and the shared namespace are untouched
+   *
+   * @param tenantId - Tenant identifier
+   * @returns Number of keys deleted
+   */
+  async flushTenant(tenantId: string): Promise<number> {
+    const tenantNamespace = getTenantNamespace(this.baseNamespace, tenantId);
+    try {
+      return await this.deleteMatching(
+        `${escapeGlob(this.keyPrefix(tenantNamespace))}:*`,
+        'tenant'
+      );
     } catch (error) {
-      console.error('Cache pattern deletion error:', error);
+      console.error(`Cache flush error for tenant ${tenantId}:`, error);
       return 0;
     }
   }
 
+  /**
+   * Key count and stored bytes of a tenant
+   * Only tracked when `options.tenantQuota` is configured
+   *
+   * @param tenantId - Tenant identifier (default: this service's tenant)
+   * @returns Tenant usage
+   */
+  async getTenantUsage(tenantId?: string): Promise<TenantUsage> {
+    const id = tenantId || this.tenant;
+    if (!id) {
+      throw new Error('getTenantUsage requires a tenant id on a service without a tenant');
+    }
+    return this.store.getQuotaUsage(this.keyPrefix(getTenantNamespace(this.baseNamespace, id)));
+  }
+
   /**
    * Get cached value or set it using a fetcher function
    *
-   * @param key - Cache key
+   * Concurrent misses for the same key share a single fetch within the process. With
+   * `stampede.distributedLock` enabled, only the instance holding the lock runs the fetcher;
+   * others wait for the value to appear.
+   *
+   * @param key - Cache key or typed key from `defineKey`
    * @param fetcher - Function to fetch data if cache miss
    * @param ttl - Time to live in seconds (optional)
    * @param tags - Tags for invalidation (optional)
+   * @param options - Per-call validator for the cached value; rejected entries are refetched
    * @returns Cached or fetched value
    */
-  async getOrSet(
-    key: string,
-    fetcher: () => Promise<any>,
+  async getOrSet<T = any>(
+    key: string | CacheKey<T>,
+    fetcher: () => Promise<T>,
     ttl?: number,
-    tags?: string[]
-  ): Promise<any> {
+    tags?: string[],
+    options?: ReadOptions<T>
+  ): Promise<T> {
     try {
       // Try to get from cache
-      const cached = await this.get(key);
+      const cached = await this.get(key, undefined, options);
       if (cached !== null) {
         return cached;
       }
 
       // Cache miss - fetch data
-      const data = await fetcher();
+      const fill = () => this.fillOnMiss(key, fetcher, ttl, tags, options);
 
-      // Store in cache
-      await this.set(key, data, ttl, tags);
-
-      return data;
+      if (this.stampede.singleFlight) {
+        return await singleFlight(this.inflight, this.namespacedKey(keyName(key)), fill);
+      }
+      return await fill();
     } catch (error) {
-      console.error(`Cache getOrSet error for key ${key}:`, error);
+      if (error instanceof LockTimeoutError) {
+        throw error;
+      }
+      console.error(`Cache getOrSet error for key ${keyName(key)}:`, error);
       // On error, just fetch the data
       return await fetcher();
     }
   }
 
+  /**
+   * Get many cached values, loading all misses with a single fetcher call
+   *
+   * Misses are not single-flighted or locked; use `getOrSet` for keys that need
+   * stampede protection.
+   *
+   * @param keys - Cache keys
+   * @param batchFetcher - Loads the missing keys; returns values in the order of its argument
+   * @param ttl - Time to live in seconds (optional)
+   * @param tags - Tags for invalidation, applied to every fetched entry (optional)
+   * @param options - Per-call validator for cached values; rejected entries are refetched
+   * @returns Values in the order of `keys`; null/undefined fetched values are returned as null
+   *   and not cached
+   */
+  async getOrSetMany<T = any>(
+    keys: string[],
+    batchFetcher: (missing: string[]) => Promise<Array<T | null | undefined>>,
+    ttl?: number,
+    tags?: string[],
+    options?: ReadOptions<T>
+  ): Promise<Array<T | null>> {
+    try {
+      const values = await this.mget(keys, options);
+      const missing = Array.from(new Set(keys.filter((_, index) => values[index] === null)));
+      if (missing.length === 0) {
+        return values;
+      }
+
+      const fetched = await batchFetcher(missing);
+      const loaded = new Map<string, T>();
+      missing.forEach((key, index) => {
+        const value = fetched[index];
+        if (value !== undefined && value !== null) {
+          loaded.set(key, value);
+        }
+      });
+
+      await this.mset(Object.fromEntries(loaded), ttl, tags);
+
+      return keys.map((key, index) => values[index] ?? loaded.get(key) ?? null);
+    } catch (error) {
+      console.error('Cache getOrSetMany error:', error);
+      // On error, just fetch the data
+      return (await batchFetcher(keys)).map((value) => value ?? null);
+    }
+  }
+
+  /**
+   * Fetch and store a missing value, holding the distributed lock if enabled
+   * @private
+   */
+  private async fillOnMiss<T>(
+    key: string | CacheKey<T>,
+    fetcher: () => Promise<T>,
+    ttl?: number,
+    tags?: string[],
+    options?: ReadOptions<T>
+  ): Promise<T> {
+    if (this.stampede.distributedLock) {
+      const token = await this.acquireLock(keyName(key));
+
+      if (token) {
+        try {
+          // Another instance may have filled the key before we got the lock
+          const cached = await this.get(key, undefined, options);
+          if (cached !== null) {
+            return cached;
+          }
+          const data = await fetcher();
+          await this.set(key, data, ttl, tags);
+          return data;
+        } finally {
+          await this.releaseLock(keyName(key), token);
+        }
+      }
+
+      const value = await this.waitForValue(key, undefined, options);
+      if (value !== null) {
+        return value;
+      }
+      if (this.stampede.fallback === 'error') {
+        throw new LockTimeoutError(this.namespacedKey(keyName(key)), this.stampede.waitTimeout);
+      }
+    }
+
+    // Fetch and store without the lock
+    const data = await fetcher();
+    await this.set(key, data, ttl, tags);
+    return data;
+  }
+
+  /**
+   * Acquire the recompute lock for a key
+   *
+   * @param key - Cache key
+   * @param timeoutMs - Lock expiry in milliseconds (default: stampede.lockTimeout)
+   * @returns Lock token if acquired, null if another holder has it
+   */
+  async acquireLock(key: string, timeoutMs?: number): Promise<string | null> {
+    const lockKey = this.namespacedKey(`lock:${key}`);
+    try {
+      return await acquireLock(this.store, lockKey, timeoutMs || this.stampede.lockTimeout);
+    } catch (error) {
+      console.error(`Cache lock error for key ${lockKey}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Release the recompute lock for a key
+   *
+   * @param key - Cache key
+   * @param token - Token returned by acquireLock
+   * @returns True if the lock was still held and has been released
+   */
+  async releaseLock(key: string, token: string): Promise<boolean> {
+    const lockKey = this.namespacedKey(`lock:${key}`);
+    try {
+      return await releaseLock(this.store, lockKey, token);
+    } catch (error) {
+      console.error(`Cache unlock error for key ${lockKey}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Poll for a key populated by another lock holder
+   *
+   * @param key - Cache key or typed key from `defineKey`
+   * @param timeoutMs - Maximum wait in milliseconds (default: stampede.waitTimeout)
+   * @param options - Per-call validator
+   * @returns Cached value, or null if it did not appear in time
+   */
+  async waitForValue<T = any>(
+    key: string | CacheKey<T>,
+    timeoutMs?: number,
+    options?: ReadOptions<T>
+  ): Promise<T | null> {
+    const deadline = Date.now() + (timeoutMs || this.stampede.waitTimeout);
+
+    while (Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, this.stampede.pollInterval));
+      const value = await this.get(key, undefined, options);
+      if (value !== null) {
+        return value;
+      }
+    }
+    return null;
+  }
+
   /**
    * Check if a key exists in cache
    *
    * @param key - Cache key
    * @returns True if key exists
    */
-  async exists(key: string): Promise<boolean> {
-    const fullKey = this.generateKey(key);
+  async exists(key: string | CacheKey): Promise<boolean> {
     try {
-      const result = await this.redis.exists(fullKey);
-      return result === 1;
+      return await this.store.exists(await this.generateKey(key));
     } catch (error) {
       return false;
     }
@@ -276,10 +1251,9 @@ export class CacheService implements ICacheService {
    * @param key - Cache key
    * @returns TTL in seconds, -1 if key has no expiry, -2 if key doesn't exist
    */
-  async ttl(key: string): Promise<number> {
-    const fullKey = this.generateKey(key);
+  async ttl(key: string | CacheKey): Promise<number> {
     try {
-      return await this.redis.ttl(fullKey);
+      return await this.store.ttl(await this.generateKey(key));
     } catch (error) {
       return -1;
     }
@@ -292,15 +1266,127 @@ export class CacheService implements ICacheService {
    * @returns New value after increment
    */
   async incr(key: string): Promise<number> {
-    const fullKey = this.generateKey(key);
     try {
-      return await this.redis.incr(fullKey);
+      const fullKey = await this.generateKey(key);
+      localTierByClient.get(this.store)?.local.delete(fullKey);
+      return await this.store.incr(fullKey);
     } catch (error) {
       console.error('Cache incr error:', error);
       return 0;
     }
   }
 
+  /**
+   * Current generation of a namespace
+   * Read from Redis at most once per `versioning.refreshInterval`
+   *
+   * @param namespace - Namespace (default: this service's namespace)
+   * @returns Generation number (0 until the first bump)
+   */
+  async getVersion(namespace?: string): Promise<number> {
+    const ns = namespace || this.namespace;
+    const refreshInterval = this.versioning?.refreshInterval ?? DEFAULT_VERSION_REFRESH_MS;
+    const cached = this.generations.get(ns);
+    if (cached && Date.now() - cached.readAt < refreshInterval) {
+      return cached.value;
+    }
+
+    const value = await this.store.getCounter(`${this.keyPrefix(ns)}:version`);
+    this.generations.set(ns, { value, readAt: Date.now() });
+    return value;
+  }
+
+  /**
+   * Invalidate every entry of a namespace in O(1) by moving it to a new generation
+   * Entries of older generations are no longer read and expire through their TTL; with
+   * `options.tenantQuota`, they stop counting against the tenant's quota right away.
+   *
+   * @param namespace - Namespace (default: this service's namespace, i.e. its tenant when scoped)
+   * @returns New generation number, or -1 on error
+   */
+  async bumpVersion(namespace?: string): Promise<number> {
+    if (!this.versioning) {
+      throw new Error('bumpVersion requires the versioning option');
+    }
+
+    const ns = namespace || this.namespace;
+    try {
+      const value = await this.store.incr(`${this.keyPrefix(ns)}:version`);
+      this.generations.set(ns, { value, readAt: Date.now() });
+      if (this.options.tenantQuota) {
+        await this.store.releaseQuotaExcept(this.keyPrefix(ns), this.generationPrefix(ns, value));
+      }
+      return value;
+    } catch (error) {
+      console.error(`Cache version bump error for namespace ${ns}:`, error);
+      return -1;
+    }
+  }
+
+  /**
+   * Remove members of expired or deleted entries from this namespace's tag sets,
+   * including those of tenants and older generations
+   * Runs on an interval when `options.tagSweeper` is set
+   *
+   * @param count - SCAN / SSCAN COUNT hint (default: 100)
+   * @returns Number of members removed, or 0 on error
+   */
+  async sweepTags(count?: number): Promise<number> {
+    const ns = escapeGlob(this.namespace);
+    // With hash tags, '[}:]' matches both '{app}:…' and tenant prefixes '{app:tenant:…}:…'
+    const pattern = this.hashTags ? `{${ns}[}:]*tag:*` : `${ns}:*tag:*`;
+
+    // The pattern also matches dependency sets of tags containing 'tag:' ('<ns>:tagdeps:tag:x');
+    // their members are tags, not entries. Tenant ids are URI-encoded, so never contain ':'.
+    const prefix = escapeRegExp(this.namespace);
+    const dependencySet = this.hashTags
+      ? new RegExp(`^\\{${prefix}(:tenant:[^:}]+)?\\}:tagdeps:`)
+      : new RegExp(`^${prefix}(:tenant:[^:]+)?:tagdeps:`);
+
+    try {
+      return await this.store.sweepTags(pattern, count, (tagKey) => dependencySet.test(tagKey));
+    } catch (error) {
+      console.error(`Cache tag sweep error for namespace ${this.namespace}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * L1 tier counters
+   *
+   * @returns Hits, misses, evictions and size, or null if the L1 tier is disabled
+   */
+  getL1Stats(): L1Stats | null {
+    return this.local ? this.local.stats() : null;
+  }
+
+  /**
+   * Stop this namespace's tag sweeper and release this service's L1 tier
+   * The tier shared by the store, and its invalidation subscriber, are closed with the last
+   * service using them. The Redis client itself is left open.
+   */
+  async close(): Promise<void> {
+    const sweepers = sweepersByClient.get(this.store);
+    const sweeper = sweepers?.get(this.namespace);
+    if (sweepers && sweeper) {
+      clearInterval(sweeper);
+      sweepers.delete(this.namespace);
+    }
+
+    const { tier, ownsTier } = this;
+    this.tier = null;
+    if (!tier || !ownsTier || --tier.refs > 0) {
+      return;
+    }
+
+    tier.closed = true;
+    localTierByClient.delete(this.store);
+    tier.local.clear();
+    if (tier.bus) {
+      await tier.bus.close();
+    }
+  }
+
   /**
    * Check Redis connection health
    *
@@ -308,7 +1394,7 @@ export class CacheService implements ICacheService {
    */
   async healthCheck(): Promise<boolean> {
     try {
-      await this.redis.ping();
+      await this.store.ping();
       return true;
     } catch (error) {
       return false;
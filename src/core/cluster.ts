@@ -0,0 +1,204 @@
+import { Redis, Cluster, ChainableCommander } from 'ioredis';
+
+/**
+ * Number of hash slots in a Redis Cluster
+ */
+const SLOT_COUNT = 16384;
+
+/**
+ * Check whether a client is an ioredis Cluster
+ *
+ * @param redis - Redis or Cluster instance
+ * @returns True for Cluster clients
+ */
+export function isCluster(redis: Redis | Cluster): redis is Cluster {
+  return redis.isCluster === true;
+}
+
+/**
+ * Hash slot of a key, honoring `{hash tags}` like Redis Cluster does
+ *
+ * @param key - Redis key
+ * @returns Slot number (0-16383)
+ */
+export function getKeySlot(key: string): number {
+  let hashed = key;
+
+  const start = key.indexOf('{');
+  if (start !== -1) {
+    const end = key.indexOf('}', start + 1);
+    // An empty tag ("{}") hashes the whole key
+    if (end > start + 1) {
+      hashed = key.substring(start + 1, end);
+    }
+  }
+
+  return crc16(Buffer.from(hashed)) % SLOT_COUNT;
+}
+
+/**
+ * Group keys by hash slot so multi-key commands never span slots
+ *
+ * @param keys - Redis keys
+ * @returns Keys grouped per slot
+ */
+export function groupBySlot(keys: string[]): string[][] {
+  const groups = new Map<number, string[]>();
+
+  for (const key of keys) {
+    const slot = getKeySlot(key);
+    const group = groups.get(slot);
+    if (group) {
+      group.push(key);
+    } else {
+      groups.set(slot, [key]);
+    }
+  }
+
+  return Array.from(groups.values());
+}
+
+/**
+ * Check whether keys can be used together in one multi-key command or script
+ * Always true on a standalone client; on a Cluster the keys must share a hash slot
+ *
+ * @param redis - Redis or Cluster instance
+ * @param keys - Redis keys
+ * @returns True if the keys can be used together
+ */
+export function inSameSlot(redis: Redis | Cluster, keys: string[]): boolean {
+  if (!isCluster(redis) || keys.length === 0) {
+    return true;
+  }
+  const slot = getKeySlot(keys[0]);
+  return keys.every((key) => getKeySlot(key) === slot);
+}
+
+/**
+ * SCAN for keys matching a pattern
+ * On a Cluster every master node is scanned, since each one only holds its own slots
+ *
+ * @param redis - Redis or Cluster instance
+ * @param pattern - Glob pattern
+ * @param count - SCAN COUNT hint
+ * @returns Matching keys (deduplicated)
+ */
+export async function scanKeys(
+  redis: Redis | Cluster,
+  pattern: string,
+  count: number = 100
+): Promise<string[]> {
+  const nodes = isCluster(redis) ? redis.nodes('master') : [redis];
+  const found = new Set<string>();
+
+  for (const node of nodes) {
+    let cursor = '0';
+    do {
+      const [next, keys] = await node.scan(cursor, 'MATCH', pattern, 'COUNT', count);
+      cursor = next;
+      for (const key of keys) {
+        found.add(key);
+      }
+    } while (cursor !== '0');
+  }
+
+  return Array.from(found);
+}
+
+/**
+ * Delete keys in batches
+ * On a Cluster keys are grouped by hash slot first, so no DEL raises CROSSSLOT
+ *
+ * @param redis - Redis or Cluster instance
+ * @param keys - Keys to delete
+ * @param batchSize - Maximum keys per DEL
+ * @param onBatch - Called after each batch is deleted
+ * @returns Number of keys that existed and were deleted
+ */
+export async function deleteKeys(
+  redis: Redis | Cluster,
+  keys: string[],
+  batchSize: number = 100,
+  onBatch?: (batch: string[]) => Promise<void>
+): Promise<number> {
+  const groups = isCluster(redis) ? groupBySlot(keys) : [keys];
+
+  const counts = await Promise.all(
+    groups.map(async (group) => {
+      let deleted = 0;
+      for (let i = 0; i < group.length; i += batchSize) {
+        const batch = group.slice(i, i + batchSize);
+        deleted += await redis.del(...batch);
+        if (onBatch) {
+          await onBatch(batch);
+        }
+      }
+      return deleted;
+    })
+  );
+
+  return counts.reduce((total, count) => total + count, 0);
+}
+
+/**
+ * Queue commands for many keys and run them in as few round-trips as possible:
+ * one pipeline on a standalone client, one pipeline per hash slot on a Cluster
+ *
+ * @param redis - Redis or Cluster instance
+ * @param keys - Keys to run commands for
+ * @param queue - Adds the commands for one key to a pipeline
+ * @returns Command results of each key, in the order of `keys`
+ */
+export async function pipelinePerKey(
+  redis: Redis | Cluster,
+  keys: string[],
+  queue: (pipeline: ChainableCommander, key: string, index: number) => void
+): Promise<Array<Array<[Error | null, unknown]>>> {
+  const groups = new Map<number, number[]>();
+  keys.forEach((key, index) => {
+    const slot = isCluster(redis) ? getKeySlot(key) : 0;
+    const group = groups.get(slot);
+    if (group) {
+      group.push(index);
+    } else {
+      groups.set(slot, [index]);
+    }
+  });
+
+  const results: Array<Array<[Error | null, unknown]>> = new Array(keys.length);
+
+  await Promise.all(
+    Array.from(groups.values()).map(async (indexes) => {
+      const pipeline = redis.pipeline();
+      const spans = indexes.map((index) => {
+        const start = pipeline.length;
+        queue(pipeline, keys[index], index);
+        return [start, pipeline.length];
+      });
+
+      const replies = (await pipeline.exec()) || [];
+      indexes.forEach((index, i) => {
+        results[index] = replies.slice(spans[i][0], spans[i][1]) as Array<[Error | null, unknown]>;
+      });
+    })
+  );
+
+  return results;
+}
+
+/**
+ * CRC16-XMODEM, the checksum Redis Cluster uses for key slots
+ * @private
+ */
+function crc16(data: Buffer): number {
+  let crc = 0;
+
+  for (const byte of data) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+
+  return crc;
+}
@@ -0,0 +1,270 @@
+import zlib from 'zlib';
+import {
+  BuiltinCodecName,
+  BuiltinSerializerName,
+  CompressionCodec,
+  CompressionConfig,
+  Serializer,
+} from './types';
+import { builtinSerializers, jsonSerializer, resolveSerializer } from './serializer';
+
+/**
+ * Pass-through codec (id 0)
+ */
+export const noneCodec: CompressionCodec = {
+  id: 0,
+  name: 'none',
+  compress: (data) => data,
+  decompress: (data) => data,
+};
+
+/**
+ * Gzip codec backed by node's zlib (id 1)
+ */
+export const gzipCodec: CompressionCodec = {
+  id: 1,
+  name: 'gzip',
+  compress: (data) => zlib.gzipSync(data),
+  decompress: (data) => zlib.gunzipSync(data),
+};
+
+/**
+ * Raw deflate codec backed by node's zlib (id 2)
+ */
+export const deflateCodec: CompressionCodec = {
+  id: 2,
+  name: 'deflate',
+  compress: (data) => zlib.deflateRawSync(data),
+  decompress: (data) => zlib.inflateRawSync(data),
+};
+
+/**
+ * Brotli codec backed by node's zlib (id 3)
+ * Tuned for speed over ratio, which suits cache writes on the request path
+ */
+export const brotliCodec: CompressionCodec = {
+  id: 3,
+  name: 'brotli',
+  compress: (data) =>
+    zlib.brotliCompressSync(data, {
+      params: {
+        [zlib.constants.BROTLI_PARAM_QUALITY]: 4,
+        [zlib.constants.BROTLI_PARAM_SIZE_HINT]: data.length,
+      },
+    }),
+  decompress: (data) => zlib.brotliDecompressSync(data),
+};
+
+const BUILTIN_CODECS: Record<BuiltinCodecName, CompressionCodec> = {
+  none: noneCodec,
+  gzip: gzipCodec,
+  deflate: deflateCodec,
+  brotli: brotliCodec,
+};
+
+/**
+ * Envelope layout:
+ *
+ *   byte 0    0x00  magic (JSON text can never start with NUL)
+ *   byte 1    0x4f  magic ('O')
+ *   byte 2    envelope version
+ *   byte 3    codec id
+ *   byte 4    serializer id (version 2 only)
+ *   byte 4/5  payload
+ *
+ * Version 1 holds compressed JSON text and is still written for it, so earlier releases can
+ * read those entries. Version 2 records the serializer and is used for every other serializer.
+ */
+const MAGIC_0 = 0x00;
+const MAGIC_1 = 0x4f;
+const JSON_ENVELOPE_VERSION = 1;
+const ENVELOPE_VERSION = 2;
+const JSON_HEADER_LENGTH = 4;
+const HEADER_LENGTH = 5;
+
+/**
+ * Prefix used by the original base64 "compression" format
+ */
+const LEGACY_PREFIX = 'compressed:';
+
+/**
+ * Encodes and decodes stored cache values
+ *
+ * Values are serialized with the configured serializer (JSON by default). Small JSON values are
+ * stored as plain text so they stay readable with redis-cli; anything else is written behind a
+ * small binary header that records the envelope version, codec id and serializer id, so entries
+ * written with different codecs and serializers can coexist. Values above the threshold are
+ * compressed. Entries written in the legacy `compressed:<base64>` format still decode.
+ *
+ * Values go through two stages: `serialize` produces the uncompressed form (also kept in the
+ * L1 tier) and `encode` compresses it for Redis; `decode` and `deserialize` reverse them.
+ */
+export class CompressionEnvelope {
+  private codec: CompressionCodec;
+  private threshold: number;
+  private codecs: Map<number, CompressionCodec>;
+  private serializer: Serializer;
+  private serializers: Map<number, Serializer>;
+
+  constructor(
+    config: CompressionConfig = {},
+    serializer: BuiltinSerializerName | Serializer = 'json',
+    serializers: Serializer[] = []
+  ) {
+    const { codec = 'gzip', threshold = 1024, codecs = [] } = config;
+
+    this.codec = typeof codec === 'string' ? resolveCodec(codec) : codec;
+    this.threshold = threshold;
+    this.codecs = new Map();
+
+    for (const registered of [...Object.values(BUILTIN_CODECS), ...codecs, this.codec]) {
+      if (registered.id < 0 || registered.id > 255 || !Number.isInteger(registered.id)) {
+        throw new Error(`Invalid compression codec id ${registered.id} for "${registered.name}"`);
+      }
+      this.codecs.set(registered.id, registered);
+    }
+
+    this.serializer = typeof serializer === 'string' ? resolveSerializer(serializer) : serializer;
+    this.serializers = new Map();
+
+    for (const registered of [...builtinSerializers(), ...serializers, this.serializer]) {
+      if (registered.id < 0 || registered.id > 255 || !Number.isInteger(registered.id)) {
+        throw new Error(`Invalid serializer id ${registered.id} for "${registered.name}"`);
+      }
+      this.serializers.set(registered.id, registered);
+    }
+  }
+
+  /**
+   * Serialize a value to its uncompressed stored form
+   *
+   * @param value - Value to cache
+   * @returns JSON text with the JSON serializer, otherwise a Buffer with envelope header
+   */
+  serialize(value: any): string | Buffer {
+    if (this.serializer.id === jsonSerializer.id) {
+      return JSON.stringify(value);
+    }
+
+    const header = Buffer.from([
+      MAGIC_0,
+      MAGIC_1,
+      ENVELOPE_VERSION,
+      noneCodec.id,
+      this.serializer.id,
+    ]);
+    return Buffer.concat([header, this.serializer.serialize(value)]);
+  }
+
+  /**
+   * Encode a serialized value for storage, compressing it above the threshold
+   *
+   * @param serialized - Value returned by `serialize`
+   * @returns String for small JSON values, Buffer with envelope header otherwise
+   */
+  encode(serialized: string | Buffer): string | Buffer {
+    const size = Buffer.isBuffer(serialized)
+      ? serialized.length - HEADER_LENGTH
+      : Buffer.byteLength(serialized);
+    if (this.codec.id === noneCodec.id || size <= this.threshold) {
+      return serialized;
+    }
+
+    const raw = Buffer.isBuffer(serialized)
+      ? serialized.subarray(HEADER_LENGTH)
+      : Buffer.from(serialized, 'utf-8');
+    const compressed = this.codec.compress(raw);
+
+    // Incompressible data is not worth the decode cost
+    if (compressed.length >= raw.length) {
+      return serialized;
+    }
+
+    const header = Buffer.isBuffer(serialized)
+      ? Buffer.from([MAGIC_0, MAGIC_1, ENVELOPE_VERSION, this.codec.id, serialized[4]])
+      : Buffer.from([MAGIC_0, MAGIC_1, JSON_ENVELOPE_VERSION, this.codec.id]);
+    return Buffer.concat([header, compressed]);
+  }
+
+  /**
+   * Decode a stored value back to its uncompressed serialized form
+   *
+   * @param stored - Raw bytes read from Redis
+   * @returns Serialized value, as accepted by `deserialize`
+   */
+  decode(stored: Buffer): string | Buffer {
+    if (isEnvelope(stored)) {
+      const version = stored[2];
+      if (version !== JSON_ENVELOPE_VERSION && version !== ENVELOPE_VERSION) {
+        throw new Error(`Unsupported cache envelope version ${version}`);
+      }
+
+      const codecId = stored[3];
+      const codec = this.codecs.get(codecId);
+      if (!codec) {
+        throw new Error(`Unknown compression codec id ${codecId}`);
+      }
+
+      if (version === JSON_ENVELOPE_VERSION) {
+        return codec.decompress(stored.subarray(JSON_HEADER_LENGTH)).toString('utf-8');
+      }
+      if (codecId === noneCodec.id) {
+        return stored;
+      }
+
+      const header = Buffer.from([MAGIC_0, MAGIC_1, ENVELOPE_VERSION, noneCodec.id, stored[4]]);
+      return Buffer.concat([header, codec.decompress(stored.subarray(HEADER_LENGTH))]);
+    }
+
+    const text = stored.toString('utf-8');
+    if (text.startsWith(LEGACY_PREFIX)) {
+      return Buffer.from(text.slice(LEGACY_PREFIX.length), 'base64').toString('utf-8');
+    }
+
+    return text;
+  }
+
+  /**
+   * Deserialize a value with the serializer recorded in its envelope
+   *
+   * @param serialized - Value returned by `serialize` or `decode`
+   * @returns Cached value
+   */
+  deserialize(serialized: string | Buffer): any {
+    if (!Buffer.isBuffer(serialized)) {
+      return JSON.parse(serialized);
+    }
+    if (!isEnvelope(serialized)) {
+      return JSON.parse(serialized.toString('utf-8'));
+    }
+
+    const serializerId = serialized[4];
+    const serializer = this.serializers.get(serializerId);
+    if (!serializer) {
+      throw new Error(`Unknown serializer id ${serializerId}`);
+    }
+    return serializer.deserialize(serialized.subarray(HEADER_LENGTH));
+  }
+}
+
+/**
+ * Look up a built-in codec by name
+ *
+ * @param name - Built-in codec name
+ * @returns Codec implementation
+ */
+export function resolveCodec(name: BuiltinCodecName): CompressionCodec {
+  const codec = BUILTIN_CODECS[name];
+  if (!codec) {
+    throw new Error(`Unknown compression codec "${name}"`);
+  }
+  return codec;
+}
+
+/**
+ * Check whether stored bytes start with the envelope magic
+ * @private
+ */
+function isEnvelope(stored: Buffer): boolean {
+  return stored.length >= JSON_HEADER_LENGTH && stored[0] === MAGIC_0 && stored[1] === MAGIC_1;
+}
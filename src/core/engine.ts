@@ -0,0 +1,831 @@
+import crypto from 'crypto';
+import { IncomingHttpHeaders, OutgoingHttpHeaders } from 'http';
+import { Redis, Cluster } from 'ioredis';
+import { CacheService } from './cache';
+import {
+  AutoCacheConfig,
+  CacheConfig,
+  CacheControlConfig,
+  CacheEntry,
+  CachedResponse,
+  CacheStore,
+  CacheTier,
+  InvalidationAuditEvent,
+  InvalidationConfig,
+  PartitionScope,
+  StampedeConfig,
+} from './types';
+import { canServeOnError, createEntry, getEntryState, getStorageTTL, toEntry } from './entry';
+import { LockTimeoutError, resolveStampedeConfig } from './lock';
+import {
+  CaptureOptions,
+  DEFAULT_MAX_BODY_SIZE,
+  createCachedResponse,
+  toCachedResponse,
+} from './response';
+import {
+  HeaderTarget,
+  appendVary,
+  formatCacheControl,
+  isNotModified,
+  parseCacheControl,
+} from './http-cache';
+import { getVaryHeaders, getVaryKey } from './vary';
+import { Partition, resolvePartition, setsCookie } from './partition';
+import { getTenantNamespace } from './tenant';
+import { CompiledTemplate, TemplateContext, compileTemplate } from './invalidation-template';
+import { writeAuditEvent } from './audit';
+
+/**
+ * Upper bound on a background revalidation before its key may be revalidated again
+ */
+const REVALIDATION_TIMEOUT_MS = 30000;
+
+/**
+ * Methods whose successful responses trigger invalidation
+ */
+const MUTATION_METHODS = ['POST', 'PUT', 'DELETE', 'PATCH'];
+
+/**
+ * Framework-neutral view of a request, built by each adapter
+ */
+export interface CacheRequest<TReq = any, TRes = any> {
+  /** Framework request, passed to config callbacks */
+  req: TReq;
+
+  /** Framework response, passed to invalidation callbacks */
+  res: TRes;
+
+  method: string;
+
+  /** Path without the query string */
+  path: string;
+
+  /** Original URL, with the query string */
+  url: string;
+
+  /** Matched route pattern for metrics and audit events, never the raw path */
+  route: string;
+
+  query: Record<string, any>;
+  params?: Record<string, string>;
+  headers: IncomingHttpHeaders;
+  body?: any;
+  user?: any;
+  cookies?: Record<string, string>;
+
+  /** Session id, for the 'session' scope */
+  sessionId?: string;
+}
+
+/**
+ * Cache service of a request, scoped to its tenant
+ */
+export interface CacheScope {
+  cache: CacheService;
+  tenantId: string | null;
+}
+
+/**
+ * Pending write of a looked-up key: the response generated by the route is stored through it,
+ * then the key is released for waiting requests and other instances
+ */
+export interface CacheFill {
+  /** Store a response built by `CacheEngine.capture` */
+  store(response: CachedResponse): void;
+
+  /** Release the key once the response is done; later calls are ignored */
+  done(): void;
+}
+
+/**
+ * Outcome of `CacheEngine.lookup`
+ * - hit: reply with the entry
+ * - stale: reply with the entry, then refresh it if `revalidate` hands out a fill
+ * - miss: run the route and store its response; `fallback` may replace a 5xx
+ * - error: another instance held the key past the stampede wait timeout
+ */
+export type ResponseLookup =
+  | { status: 'hit'; entry: CacheEntry; tier: CacheTier | null }
+  | { status: 'stale'; entry: CacheEntry; revalidate: () => Promise<CacheFill | null> }
+  | { status: 'miss'; fill: CacheFill; fallback: CacheEntry | null }
+  | { status: 'error'; error: Error };
+
+/**
+ * Value of the `X-Cache` response header
+ */
+export type CacheResult = 'HIT' | 'STALE' | 'MISS' | 'ERROR';
+
+/**
+ * Framework-neutral request/response cache behind the Express, Fastify and Koa adapters
+ *
+ * Owns everything `CacheConfig` describes: which requests are cached or invalidate, cache keys,
+ * lookups with stale windows and stampede protection, the headers of cached and fresh
+ * responses, storage and mutation invalidation with its audit trail. Adapters translate
+ * their framework's request into a `CacheRequest`, capture the route's response and write
+ * the responses the engine decides on.
+ *
+ * @example
+ * ```typescript
+ * const engine = new CacheEngine(redis, { ttl: 60 });
+ * const scope = engine.scope(req);
+ * const request = toCacheRequest(req, res); // the adapter's view of the request
+ *
+ * if (engine.getAction(request) === 'cache') {
+ *   const key = engine.getCacheKey(request);
+ *   const lookup = await engine.lookup(request, scope, key);
+ *   // reply with lookup.entry, or run the route and lookup.fill.store(engine.capture(...))
+ * }
+ * ```
+ */
+export class CacheEngine<TReq = any, TRes = any> {
+  /** Shared cache service; tenant services derive from it */
+  readonly cache: CacheService;
+
+  /** Configuration the engine was created with */
+  readonly config: CacheConfig<TReq, TRes>;
+
+  /** Header whitelist and body size limit for captured responses, built by `capture` */
+  readonly captureOptions: CaptureOptions;
+
+  private ttl: number;
+  private namespace: string;
+  private autoCache: AutoCacheConfig<TReq>;
+  private invalidation: InvalidationConfig<TReq, TRes>;
+  private partitionScope: PartitionScope;
+  private stampede: Required<StampedeConfig>;
+  private cacheControl: CacheControlConfig | null;
+  private templates: Record<'tags' | 'keys' | 'patterns', CompiledTemplate[]>;
+  private varyHeaders: string[];
+
+  // Keys currently being refreshed in the background
+  private revalidating = new Set<string>();
+
+  // Misses currently being computed, awaited by concurrent requests
+  private misses = new Map<string, Promise<CacheEntry | null>>();
+
+  /**
+   * Create a new CacheEngine
+   *
+   * @param redisClient - Redis, Cluster or CacheStore instance
+   * @param config - Cache configuration options
+   * @throws TemplateError if a static invalidation target is malformed
+   */
+  constructor(redisClient: Redis | Cluster | CacheStore, config: CacheConfig<TReq, TRes> = {}) {
+    const { ttl = 3600, namespace = 'app', autoCache = {}, invalidate = {}, tenant } = config;
+
+    this.config = config;
+    this.ttl = ttl;
+    this.namespace = namespace;
+    this.autoCache = autoCache;
+    this.invalidation = invalidate;
+    this.partitionScope = autoCache.scope || (autoCache.includeAuth ? 'user' : 'public');
+
+    // One service per engine so in-process state (L1 tier, locks) is set up once
+    this.cache = new CacheService(redisClient, namespace, ttl, {
+      compression: config.compression,
+      serializer: config.serializer,
+      serializers: config.serializers,
+      stampede: config.stampede,
+      l1: config.l1,
+      invalidationChannel: config.invalidationChannel,
+      metrics: config.metrics,
+      tenantQuota: tenant?.quota,
+      versioning: config.versioning,
+      hashTags: config.hashTags,
+      tagSweeper: config.tagSweeper,
+    });
+
+    this.stampede = resolveStampedeConfig(config.stampede);
+    this.captureOptions = {
+      headers: autoCache.headers,
+      maxBodySize: autoCache.maxBodySize,
+      build: (status, headers, body) => this.capture(status, headers, body),
+    };
+
+    // Cache-Control / Vary settings, null when disabled
+    this.cacheControl = autoCache.cacheControl
+      ? {
+          visibility:
+            this.partitionScope !== 'public' || autoCache.varyBy?.user?.length
+              ? 'private'
+              : 'public',
+          ...(autoCache.cacheControl === true ? {} : autoCache.cacheControl),
+        }
+      : null;
+
+    // A dry run only reports through the audit sink, so it is useless without one
+    if (invalidate.dryRun && !config.audit) {
+      throw new Error('invalidate.dryRun requires an audit sink');
+    }
+
+    // Static invalidation targets may contain {source.path} placeholders; malformed ones throw here
+    this.templates = {
+      tags: compileTemplates(invalidate.tags),
+      keys: compileTemplates(invalidate.keys),
+      patterns: compileTemplates(invalidate.patterns, true),
+    };
+
+    // Request headers that select a cached variant
+    this.varyHeaders = autoCache.varyBy ? getVaryHeaders(autoCache.varyBy) : [];
+  }
+
+  /**
+   * Cache service for a request, scoped to the request's tenant
+   *
+   * @param req - Framework request
+   * @returns Cache service and tenant
+   */
+  scope(req: TReq): CacheScope {
+    const tenantId = this.config.tenant ? this.config.tenant.resolve(req) || null : null;
+    return { cache: tenantId ? this.cache.forTenant(tenantId) : this.cache, tenantId };
+  }
+
+  /**
+   * What the adapter does with a request
+   *
+   * @param request - Request view
+   * @returns 'cache' for cacheable GETs, 'invalidate' for mutations, or null to pass through
+   */
+  getAction(request: CacheRequest<TReq, TRes>): 'cache' | 'invalidate' | null {
+    const { strategy = 'auto' } = this.config;
+    if (strategy === 'none' || strategy === 'manual') {
+      return null;
+    }
+
+    if (request.method === 'GET' && this.autoCache.enabled !== false) {
+      if (!this.autoCache.condition || this.autoCache.condition(request.req)) {
+        // Requests that cannot be told apart from other users' are never cached,
+        // and clients may opt out with `Cache-Control: no-store`
+        const bypass = 'no-store' in this.getRequestDirectives(request);
+        return this.getPartition(request) && !bypass ? 'cache' : null;
+      }
+    }
+
+    if (MUTATION_METHODS.includes(request.method) && this.invalidation.enabled !== false) {
+      return 'invalidate';
+    }
+
+    return null;
+  }
+
+  /**
+   * Cache key of a GET request: `keyGenerator` or method, path and query hash,
+   * followed by the partition and the varyBy variant
+   *
+   * @param request - Request view
+   * @returns Cache key
+   */
+  getCacheKey(request: CacheRequest<TReq, TRes>): string {
+    const { keyGenerator, varyBy } = this.autoCache;
+    let key: string;
+
+    if (keyGenerator) {
+      key = keyGenerator(request.req);
+    } else {
+      const parts: string[] = [request.method, request.path];
+
+      // Add query params hash
+      const queryString = Object.keys(request.query)
+        .sort()
+        .map((name) => `${name}=${request.query[name]}`)
+        .join('&');
+
+      if (queryString) {
+        parts.push(crypto.createHash('md5').update(queryString).digest('hex'));
+      }
+
+      key = parts.join(':');
+    }
+
+    // Each user or session gets its own entry
+    const partition = this.getPartition(request);
+    if (partition?.key) {
+      key = `${key}:${partition.key}`;
+    }
+
+    // Each combination of varyBy attributes gets its own entry
+    const varyKey = varyBy ? getVaryKey(request, varyBy) : null;
+    return varyKey ? `${key}:vary:${varyKey}` : key;
+  }
+
+  /**
+   * Look up a cached response, coordinating misses with concurrent requests (single flight)
+   * and other instances (distributed lock)
+   * Warm requests (`X-Cache-Warm: <warmToken>`) and `Cache-Control: no-cache` requests skip
+   * the lookup to store a fresh response.
+   *
+   * @param request - Request view
+   * @param scope - Cache service of the request
+   * @param key - Cache key
+   * @returns What to reply with; a miss must always be completed with `fill.done()`
+   */
+  async lookup(
+    request: CacheRequest<TReq, TRes>,
+    scope: CacheScope,
+    key: string
+  ): Promise<ResponseLookup> {
+    const { cache, tenantId } = scope;
+
+    // In-process coordination must not mix up tenants sharing a route
+    const flightKey = tenantId ? `${getTenantNamespace(this.namespace, tenantId)}:${key}` : key;
+
+    const isWarmRequest =
+      this.autoCache.warmToken !== undefined &&
+      request.headers['x-cache-warm'] === this.autoCache.warmToken;
+    const isRefresh = isWarmRequest || 'no-cache' in this.getRequestDirectives(request);
+    const { value: cachedValue, tier } = isRefresh
+      ? { value: null, tier: null }
+      : await cache.lookup(key);
+    let fallback: CacheEntry | null = null;
+
+    if (cachedValue !== null) {
+      const entry = toEntry(cachedValue);
+      const state = getEntryState(entry);
+
+      if (state === 'fresh') {
+        return { status: 'hit', entry, tier: this.config.l1 ? tier : null };
+      }
+      if (state === 'stale') {
+        return {
+          status: 'stale',
+          entry,
+          revalidate: () => this.beginRevalidation(request, cache, key, flightKey),
+        };
+      }
+      if (canServeOnError(entry)) {
+        fallback = entry;
+      }
+    }
+
+    // Another request in this process is already computing this key
+    const pending = this.stampede.singleFlight ? this.misses.get(flightKey) : undefined;
+    if (pending) {
+      const entry = await pending;
+      if (entry) {
+        return { status: 'hit', entry, tier: null };
+      }
+    }
+
+    // Become the leader for this key; concurrent requests wait for our response
+    const isLeader = this.stampede.singleFlight && !this.misses.has(flightKey);
+    let settle: (entry: CacheEntry | null) => void = () => undefined;
+    if (isLeader) {
+      this.misses.set(
+        flightKey,
+        new Promise((resolve) => {
+          settle = resolve;
+        })
+      );
+    }
+    const handOff = (entry: CacheEntry | null) => {
+      if (isLeader) {
+        this.misses.delete(flightKey);
+      }
+      settle(entry);
+    };
+
+    // Only one instance runs the route; the others wait for its result
+    let lockToken: string | null = null;
+    if (this.stampede.distributedLock) {
+      lockToken = await cache.acquireLock(key);
+
+      if (!lockToken) {
+        const value = await cache.waitForValue(key);
+
+        if (value !== null) {
+          const entry = toEntry(value);
+          handOff(entry);
+          return { status: 'hit', entry, tier: null };
+        }
+
+        if (this.stampede.fallback === 'error') {
+          handOff(null);
+          return { status: 'error', error: new LockTimeoutError(key, this.stampede.waitTimeout) };
+        }
+      }
+    }
+
+    // Hand the stored entry to waiting requests and release the lock once the response is done
+    let storing: Promise<CacheEntry> | null = null;
+    let released = false;
+    return {
+      status: 'miss',
+      fallback,
+      fill: {
+        store: (response) => {
+          storing = this.store(request, cache, key, response);
+        },
+        done: () => {
+          if (released) {
+            return;
+          }
+          released = true;
+          Promise.resolve<CacheEntry | null>(storing).then((entry) => {
+            handOff(entry);
+            if (lockToken) {
+              cache.releaseLock(key, lockToken);
+            }
+          });
+        },
+      },
+    };
+  }
+
+  /**
+   * Build the cached form of a route's response
+   *
+   * @param status - HTTP status code
+   * @param headers - All response headers
+   * @param body - Raw response body
+   * @returns Cached response, or null for non-2xx responses, bodies over `maxBodySize`,
+   * responses setting cookies and responses the controller marked as not storable
+   */
+  capture(status: number, headers: OutgoingHttpHeaders, body: Buffer): CachedResponse | null {
+    const { maxBodySize = DEFAULT_MAX_BODY_SIZE, responseDirectives = true } = this.autoCache;
+    if (status < 200 || status >= 300 || body.length > maxBodySize || setsCookie(headers)) {
+      return null;
+    }
+
+    let maxAge: number | undefined;
+    if (responseDirectives) {
+      const directives = parseCacheControl(headers);
+      const shared = this.partitionScope === 'public';
+      if ('no-store' in directives || ('private' in directives && shared)) {
+        return null;
+      }
+
+      // A shared cache prefers s-maxage (RFC 9111 §5.2.2.10); invalid or zero lifetimes are stale
+      const lifetime =
+        shared && directives['s-maxage'] !== undefined
+          ? directives['s-maxage']
+          : directives['max-age'];
+      if (lifetime !== undefined) {
+        maxAge = Number(lifetime);
+        if (!(maxAge > 0)) {
+          return null;
+        }
+      }
+    }
+
+    const response = createCachedResponse(status, headers, body, this.autoCache.headers);
+    return maxAge === undefined ? response : { ...response, maxAge };
+  }
+
+  /**
+   * Set `X-Cache`, `X-Cache-Key` and (for L1/L2 hits) `X-Cache-Tier`
+   *
+   * @param target - Response headers
+   * @param result - Cache result
+   * @param key - Cache key
+   * @param tier - Tier that served a hit
+   */
+  setResult(
+    target: HeaderTarget,
+    result: CacheResult,
+    key?: string,
+    tier?: CacheTier | null
+  ): void {
+    target.setHeader('X-Cache', result);
+    if (key) {
+      target.setHeader('X-Cache-Key', key);
+    }
+    if (tier) {
+      target.setHeader('X-Cache-Tier', tier.toUpperCase());
+    }
+  }
+
+  /**
+   * Set the headers of a reply served from an entry (validators, Cache-Control)
+   *
+   * @param request - Request view
+   * @param target - Response headers
+   * @param entry - Cache entry
+   * @returns Response to replay, or null when a 304 Not Modified answers the request
+   */
+  prepareEntry(
+    request: CacheRequest<TReq, TRes>,
+    target: HeaderTarget,
+    entry: CacheEntry
+  ): CachedResponse | null {
+    const response = toCachedResponse(entry);
+
+    this.setValidators(target, response);
+    this.setCacheControl(
+      target,
+      Math.min(response.maxAge ?? this.ttl, Math.max(0, (entry.freshUntil - Date.now()) / 1000))
+    );
+
+    return isNotModified(request.headers, response) ? null : response;
+  }
+
+  /**
+   * Announce the request headers that select a cached variant in `Vary`
+   *
+   * @param target - Response headers
+   */
+  setVary(target: HeaderTarget): void {
+    if (this.varyHeaders.length > 0) {
+      appendVary(target, this.varyHeaders);
+    }
+  }
+
+  /**
+   * Set the ETag and Last-Modified validators of a cached response
+   *
+   * @param target - Response headers
+   * @param response - Cached response
+   */
+  setValidators(target: HeaderTarget, response: CachedResponse): void {
+    if (response.etag) {
+      target.setHeader('ETag', response.etag);
+    }
+    if (response.lastModified !== undefined) {
+      target.setHeader('Last-Modified', new Date(response.lastModified).toUTCString());
+    }
+  }
+
+  /**
+   * Advertise the fresh lifetime of a successful response generated by this request
+   * (not of stale entries replacing an error)
+   *
+   * @param target - Response headers
+   * @param status - Response status code
+   */
+  setFreshHeaders(target: HeaderTarget, status: number): void {
+    if (status >= 200 && status < 300 && target.getHeader('X-Cache') === 'MISS') {
+      this.setCacheControl(target, this.ttl);
+    }
+  }
+
+  /**
+   * Count the final cache result of a request
+   *
+   * @param route - Route label
+   * @param result - Value of the X-Cache header, if any
+   */
+  recordResult(route: string, result: unknown): void {
+    if (this.config.metrics && result) {
+      this.config.metrics.recordRequest(route, this.namespace, String(result).toLowerCase());
+    }
+  }
+
+  /**
+   * Invalidate the targets of a successful mutation (or preview them in a dry run)
+   * and write the audit event
+   * Errors are logged, never thrown.
+   *
+   * @param request - Request view
+   * @param scope - Cache service of the request
+   * @param status - Response status code
+   * @param data - JSON data sent by the route, for {response.*} placeholders
+   */
+  async invalidate(
+    request: CacheRequest<TReq, TRes>,
+    scope: CacheScope,
+    status: number,
+    data?: any
+  ): Promise<void> {
+    const { cache, tenantId } = scope;
+    const { audit } = this.config;
+    const invalidate = this.invalidation;
+    const startedAt = Date.now();
+    const context: TemplateContext = {
+      params: request.params,
+      query: request.query,
+      body: request.body,
+      headers: request.headers,
+      user: request.user,
+      response: data,
+    };
+    const targets = {
+      tags: [] as string[],
+      keys: [] as string[],
+      patterns: [] as string[],
+      bumpVersion: invalidate.bumpVersion === true,
+    };
+    let removed = 0;
+    let dryRunKeys: string[] | undefined;
+    let failure: unknown;
+
+    try {
+      targets.tags = resolveTargets(invalidate.tags, this.templates.tags, request, context);
+      targets.patterns = resolveTargets(
+        invalidate.patterns,
+        this.templates.patterns,
+        request,
+        context
+      );
+      targets.keys = resolveTargets(invalidate.keys, this.templates.keys, request, context);
+
+      if (invalidate.dryRun) {
+        // Nothing is deleted and the generation is left as is
+        dryRunKeys = (await cache.previewInvalidation(targets)).keys;
+        removed = dryRunKeys.length;
+      } else {
+        const counts = await Promise.all([
+          // Invalidate by tags (and their dependents)
+          targets.tags.length > 0 ? cache.invalidateByTags(targets.tags) : 0,
+          // Invalidate by patterns
+          ...targets.patterns.map((pattern) => cache.delPattern(pattern)),
+          // Invalidate by specific keys
+          targets.keys.length > 0 ? cache.mdel(targets.keys) : 0,
+          // Invalidate the whole namespace (or tenant) at once
+          targets.bumpVersion ? cache.bumpVersion().then(() => 0) : 0,
+        ]);
+        removed = counts.reduce((sum, count) => sum + count, 0);
+      }
+    } catch (error) {
+      failure = error;
+      console.error('Cache invalidation error:', error);
+    }
+
+    if (!audit) {
+      return;
+    }
+
+    const event: InvalidationAuditEvent = {
+      timestamp: startedAt,
+      method: request.method,
+      route: request.route,
+      url: request.url,
+      status,
+      actor: audit.actor ? audit.actor(request.req) : getActor(request.user),
+      tenant: tenantId || undefined,
+      namespace: this.namespace,
+      targets,
+      dryRun: invalidate.dryRun === true,
+      removed,
+      keys: dryRunKeys,
+      duration: Date.now() - startedAt,
+      error: failure ? String((failure as Error).message || failure) : undefined,
+    };
+    await writeAuditEvent(audit.sink, event);
+  }
+
+  /**
+   * Claim the refresh of a stale key; only one request per process (and per cluster,
+   * with the distributed lock) refreshes it
+   */
+  private async beginRevalidation(
+    request: CacheRequest<TReq, TRes>,
+    cache: CacheService,
+    key: string,
+    flightKey: string
+  ): Promise<CacheFill | null> {
+    if (this.revalidating.has(flightKey)) {
+      return null;
+    }
+    this.revalidating.add(flightKey);
+
+    const token = this.stampede.distributedLock ? await cache.acquireLock(key) : null;
+    if (this.stampede.distributedLock && !token) {
+      this.revalidating.delete(flightKey);
+      return null;
+    }
+
+    let finished = false;
+    const done = () => {
+      if (!finished) {
+        finished = true;
+        clearTimeout(timer);
+        this.revalidating.delete(flightKey);
+        if (token) {
+          cache.releaseLock(key, token);
+        }
+      }
+    };
+    const timer = setTimeout(done, REVALIDATION_TIMEOUT_MS);
+    timer.unref();
+
+    return {
+      store: (response) => {
+        this.store(request, cache, key, response);
+      },
+      done,
+    };
+  }
+
+  /**
+   * Persist a successful response with its freshness metadata
+   */
+  private store(
+    request: CacheRequest<TReq, TRes>,
+    cache: CacheService,
+    key: string,
+    response: CachedResponse
+  ): Promise<CacheEntry> {
+    const { tags } = this.autoCache;
+    const ttl = response.maxAge ?? this.ttl;
+    const entry: CacheEntry<CachedResponse> = {
+      ...createEntry(response, ttl, this.autoCache),
+      kind: 'response',
+    };
+    const entryTags = typeof tags === 'function' ? tags(request.req) : tags || [];
+    const partition = this.getPartition(request);
+
+    // Cache asynchronously (non-blocking)
+    return cache
+      .set(
+        key,
+        entry,
+        getStorageTTL(ttl, this.autoCache),
+        partition?.tag ? [...entryTags, partition.tag] : entryTags
+      )
+      .catch((err) => console.error('Cache set error:', err))
+      .then(() => entry);
+  }
+
+  /**
+   * Partition of a cacheable request, or null when it must not be cached: credentials
+   * in the 'public' scope, or no identity in the 'user' and 'session' scopes
+   */
+  private getPartition(request: CacheRequest<TReq, TRes>): Partition | null {
+    return resolvePartition(this.partitionScope, request, this.autoCache);
+  }
+
+  /**
+   * Cache-Control directives of a request, when its caller may control the cache
+   * `Pragma: no-cache` counts as `no-cache` for HTTP/1.0 clients without Cache-Control.
+   */
+  private getRequestDirectives(request: CacheRequest<TReq, TRes>): Record<string, string> {
+    const { requestDirectives = false } = this.autoCache;
+    const trusted =
+      typeof requestDirectives === 'function' ? requestDirectives(request.req) : requestDirectives;
+    if (!trusted) {
+      return {};
+    }
+
+    const { headers } = request;
+    if (headers['cache-control'] === undefined && /no-cache/i.test(String(headers.pragma || ''))) {
+      return { 'no-cache': '' };
+    }
+    return parseCacheControl(headers);
+  }
+
+  /**
+   * Cache-Control and Vary for a response that stays fresh for `maxAge` seconds
+   */
+  private setCacheControl(target: HeaderTarget, maxAge: number): void {
+    if (!this.cacheControl) {
+      return;
+    }
+    if (!target.getHeader('Cache-Control')) {
+      target.setHeader(
+        'Cache-Control',
+        formatCacheControl(this.cacheControl, maxAge, this.autoCache)
+      );
+    }
+    if (this.cacheControl.vary) {
+      appendVary(target, this.cacheControl.vary);
+    }
+  }
+}
+
+/**
+ * Compile a static list of invalidation templates
+ * @private
+ */
+function compileTemplates(
+  option: string[] | ((...args: any[]) => string[]) | undefined,
+  glob: boolean = false
+): CompiledTemplate[] {
+  return Array.isArray(option) ? option.map((template) => compileTemplate(template, glob)) : [];
+}
+
+/**
+ * Tags, keys or patterns to invalidate for a request: the result of a function option, or
+ * the resolved templates of a static list
+ * Templates with a missing placeholder value are reported and skipped, never invalidated
+ * with a partial value.
+ * @private
+ */
+function resolveTargets<TReq, TRes>(
+  option: string[] | ((req: TReq, res: TRes, data?: any) => string[]) | undefined,
+  compiled: CompiledTemplate[],
+  request: CacheRequest<TReq, TRes>,
+  context: TemplateContext
+): string[] {
+  if (typeof option === 'function') {
+    return option(request.req, request.res, context.response);
+  }
+
+  const targets: string[] = [];
+  for (const template of compiled) {
+    try {
+      targets.push(template.resolve(context));
+    } catch (error) {
+      console.error('Cache invalidation template error:', error);
+    }
+  }
+  return targets;
+}
+
+/**
+ * Default audit actor: the id of the authenticated user
+ * @private
+ */
+function getActor(user: any): string | undefined {
+  const id = user?.id;
+  return id === undefined || id === null ? undefined : String(id);
+}
@@ -0,0 +1,117 @@
+import { AutoCacheConfig, CacheEntry } from './types';
+
+/**
+ * Stale windows applied to an entry
+ */
+export type StalePolicy = Pick<AutoCacheConfig, 'staleWhileRevalidate' | 'staleIfError'>;
+
+/**
+ * Freshness of a cache entry at a point in time
+ * - fresh: serve as a HIT
+ * - stale: serve stale and revalidate in the background
+ * - expired: treat as a MISS
+ */
+export type EntryState = 'fresh' | 'stale' | 'expired';
+
+/**
+ * Wrap a payload in an entry with freshness deadlines
+ *
+ * @param data - Payload to cache
+ * @param ttl - Fresh lifetime in seconds
+ * @param policy - Stale windows in seconds
+ * @param now - Current time in milliseconds
+ * @returns Cache entry
+ */
+export function createEntry<T>(
+  data: T,
+  ttl: number,
+  policy: StalePolicy = {},
+  now: number = Date.now()
+): CacheEntry<T> {
+  const freshUntil = now + ttl * 1000;
+
+  return {
+    __osmium: 1,
+    data,
+    storedAt: now,
+    freshUntil,
+    staleUntil: freshUntil + (policy.staleWhileRevalidate || 0) * 1000,
+    errorUntil: freshUntil + (policy.staleIfError || 0) * 1000,
+  };
+}
+
+/**
+ * Normalize a cached value into an entry
+ * Values stored before entries existed are treated as fresh until Redis expires them
+ *
+ * @param value - Value read from the cache
+ * @returns Cache entry
+ */
+export function toEntry<T = any>(value: any): CacheEntry<T> {
+  if (isEntry(value)) {
+    return value;
+  }
+
+  return {
+    __osmium: 1,
+    data: value,
+    storedAt: 0,
+    freshUntil: Number.MAX_SAFE_INTEGER,
+    staleUntil: Number.MAX_SAFE_INTEGER,
+    errorUntil: Number.MAX_SAFE_INTEGER,
+  };
+}
+
+/**
+ * Check whether a cached value is an entry
+ *
+ * @param value - Value read from the cache
+ * @returns True if value is a cache entry
+ */
+export function isEntry(value: any): value is CacheEntry {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    value.__osmium === 1 &&
+    typeof value.freshUntil === 'number'
+  );
+}
+
+/**
+ * Determine the freshness of an entry
+ *
+ * @param entry - Cache entry
+ * @param now - Current time in milliseconds
+ * @returns Entry state
+ */
+export function getEntryState(entry: CacheEntry, now: number = Date.now()): EntryState {
+  if (now < entry.freshUntil) {
+    return 'fresh';
+  }
+  if (now < entry.staleUntil) {
+    return 'stale';
+  }
+  return 'expired';
+}
+
+/**
+ * Check whether an entry may replace an error response
+ *
+ * @param entry - Cache entry
+ * @param now - Current time in milliseconds
+ * @returns True if the entry is within its stale-if-error window
+ */
+export function canServeOnError(entry: CacheEntry, now: number = Date.now()): boolean {
+  return now < entry.errorUntil;
+}
+
+/**
+ * Redis TTL for an entry: its fresh lifetime plus the longest stale window
+ *
+ * @param ttl - Fresh lifetime in seconds
+ * @param policy - Stale windows in seconds
+ * @returns Storage TTL in seconds
+ */
+export function getStorageTTL(ttl: number, policy: StalePolicy = {}): number {
+  return ttl + Math.max(policy.staleWhileRevalidate || 0, policy.staleIfError || 0);
+}
@@ -0,0 +1,496 @@
+import { CacheHint } from './types';
+
+/**
+ * Operation types of a GraphQL document
+ */
+export type GraphQLOperationType = 'query' | 'mutation' | 'subscription';
+
+/**
+ * Field selected by an operation
+ */
+export interface GraphQLField {
+  /** Field name */
+  name: string;
+
+  /** Key of the field in the response (its alias, or its name) */
+  responseKey: string;
+
+  /** Dot path of field names from the root (e.g. 'user.friends.name') */
+  path: string;
+
+  /** Hint from a `@cacheControl(maxAge: …, scope: …)` directive on the field */
+  hint?: CacheHint;
+}
+
+/**
+ * Operation of a GraphQL document, with fragments expanded
+ */
+export interface GraphQLOperation {
+  /** Operation type */
+  type: GraphQLOperationType;
+
+  /** Operation name, if any */
+  name?: string;
+
+  /** Top-level fields */
+  rootFields: GraphQLField[];
+
+  /** Every selected field, top-level fields included */
+  fields: GraphQLField[];
+}
+
+/**
+ * Thrown for documents the scanner cannot read
+ */
+export class GraphQLSyntaxError extends Error {
+  constructor(message: string) {
+    super(`Invalid GraphQL document: ${message}`);
+    this.name = 'GraphQLSyntaxError';
+  }
+}
+
+/**
+ * Lexical token: punctuator, name, number, string or block string
+ */
+interface Token {
+  kind: 'punct' | 'name' | 'number' | 'string';
+  value: string;
+}
+
+/**
+ * Directive with literal arguments (variables are kept as `$name` strings)
+ */
+interface Directive {
+  name: string;
+  args: Record<string, any>;
+}
+
+/**
+ * Selection of a selection set
+ */
+type Selection =
+  | {
+      kind: 'field';
+      name: string;
+      alias?: string;
+      directives: Directive[];
+      selections?: Selection[];
+    }
+  | { kind: 'spread'; name: string }
+  | { kind: 'inline'; selections: Selection[] };
+
+const PUNCTUATORS = '!$&()...:=@[]{|}';
+const NAME_START = /[_A-Za-z]/;
+const NAME_CONTINUE = /[_0-9A-Za-z]/;
+const NUMBER_CHAR = /[-+0-9.eE]/;
+
+/**
+ * Split a document into tokens, dropping whitespace, commas and comments
+ * @private
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '#') {
+      while (i < source.length && source[i] !== '\n' && source[i] !== '\r') {
+        i++;
+      }
+    } else if (/[\s,\uFEFF]/.test(char)) {
+      i++;
+    } else if (source.startsWith('...', i)) {
+      tokens.push({ kind: 'punct', value: '...' });
+      i += 3;
+    } else if (source.startsWith('"""', i)) {
+      const end = source.indexOf('"""', i + 3);
+      if (end === -1) {
+        throw new GraphQLSyntaxError('unterminated block string');
+      }
+      tokens.push({ kind: 'string', value: source.slice(i, end + 3) });
+      i = end + 3;
+    } else if (char === '"') {
+      let end = i + 1;
+      while (end < source.length && source[end] !== '"') {
+        end += source[end] === '\\' ? 2 : 1;
+      }
+      if (end >= source.length) {
+        throw new GraphQLSyntaxError('unterminated string');
+      }
+      tokens.push({ kind: 'string', value: source.slice(i, end + 1) });
+      i = end + 1;
+    } else if (PUNCTUATORS.includes(char)) {
+      tokens.push({ kind: 'punct', value: char });
+      i++;
+    } else if (NAME_START.test(char)) {
+      let end = i + 1;
+      while (end < source.length && NAME_CONTINUE.test(source[end])) {
+        end++;
+      }
+      tokens.push({ kind: 'name', value: source.slice(i, end) });
+      i = end;
+    } else if (char === '-' || /[0-9]/.test(char)) {
+      let end = i + 1;
+      while (end < source.length && NUMBER_CHAR.test(source[end])) {
+        end++;
+      }
+      tokens.push({ kind: 'number', value: source.slice(i, end) });
+      i = end;
+    } else {
+      throw new GraphQLSyntaxError(`unexpected character "${char}"`);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent reader for the executable subset of GraphQL
+ * (operations, fragments, selections, arguments and directives)
+ * @private
+ */
+class DocumentReader {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  get done(): boolean {
+    return this.position >= this.tokens.length;
+  }
+
+  peek(value?: string): boolean {
+    const token = this.tokens[this.position];
+    return token !== undefined && (value === undefined || token.value === value);
+  }
+
+  next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      throw new GraphQLSyntaxError('unexpected end of document');
+    }
+    return token;
+  }
+
+  expect(value: string): void {
+    const token = this.next();
+    if (token.value !== value) {
+      throw new GraphQLSyntaxError(`expected "${value}", found "${token.value}"`);
+    }
+  }
+
+  name(): string {
+    const token = this.next();
+    if (token.kind !== 'name') {
+      throw new GraphQLSyntaxError(`expected a name, found "${token.value}"`);
+    }
+    return token.value;
+  }
+
+  /** Skip a balanced (...) or [...] group, e.g. variable definitions */
+  skipGroup(open: string, close: string): void {
+    this.expect(open);
+    for (let depth = 1; depth > 0;) {
+      const { value } = this.next();
+      depth += value === open ? 1 : value === close ? -1 : 0;
+    }
+  }
+
+  value(): any {
+    const token = this.next();
+
+    if (token.kind === 'number') {
+      return Number(token.value);
+    }
+    if (token.kind === 'string') {
+      return token.value.startsWith('"""') ? token.value.slice(3, -3) : JSON.parse(token.value);
+    }
+    if (token.value === '$') {
+      return `$${this.name()}`;
+    }
+    if (token.value === '[') {
+      const list: any[] = [];
+      while (!this.peek(']')) {
+        list.push(this.value());
+      }
+      this.expect(']');
+      return list;
+    }
+    if (token.value === '{') {
+      const object: Record<string, any> = {};
+      while (!this.peek('}')) {
+        const key = this.name();
+        this.expect(':');
+        object[key] = this.value();
+      }
+      this.expect('}');
+      return object;
+    }
+    if (token.kind === 'name') {
+      return token.value === 'true'
+        ? true
+        : token.value === 'false'
+          ? false
+          : token.value === 'null'
+            ? null
+            : token.value;
+    }
+    throw new GraphQLSyntaxError(`unexpected "${token.value}"`);
+  }
+
+  arguments(): Record<string, any> {
+    const args: Record<string, any> = {};
+    if (this.peek('(')) {
+      this.expect('(');
+      while (!this.peek(')')) {
+        const name = this.name();
+        this.expect(':');
+        args[name] = this.value();
+      }
+      this.expect(')');
+    }
+    return args;
+  }
+
+  directives(): Directive[] {
+    const directives: Directive[] = [];
+    while (this.peek('@')) {
+      this.expect('@');
+      directives.push({ name: this.name(), args: this.arguments() });
+    }
+    return directives;
+  }
+
+  selectionSet(): Selection[] {
+    const selections: Selection[] = [];
+    this.expect('{');
+
+    while (!this.peek('}')) {
+      if (this.peek('...')) {
+        this.expect('...');
+        if (this.peek('on') || this.peek('@') || this.peek('{')) {
+          if (this.peek('on')) {
+            this.next();
+            this.name();
+          }
+          this.directives();
+          selections.push({ kind: 'inline', selections: this.selectionSet() });
+        } else {
+          selections.push({ kind: 'spread', name: this.name() });
+          this.directives();
+        }
+        continue;
+      }
+
+      let name = this.name();
+      let alias: string | undefined;
+      if (this.peek(':')) {
+        this.expect(':');
+        alias = name;
+        name = this.name();
+      }
+      this.arguments();
+      const directives = this.directives();
+      const children = this.peek('{') ? this.selectionSet() : undefined;
+      selections.push({ kind: 'field', name, alias, directives, selections: children });
+    }
+
+    this.expect('}');
+    if (selections.length === 0) {
+      throw new GraphQLSyntaxError('empty selection set');
+    }
+    return selections;
+  }
+}
+
+/**
+ * Read the operation a request executes
+ *
+ * Covers the executable subset of GraphQL without a schema: operations, named and inline
+ * fragments, aliases, arguments and directives. Documents with several operations need
+ * `operationName`, as in GraphQL execution.
+ *
+ * @param document - GraphQL document (`query` of the request)
+ * @param operationName - Operation to execute
+ * @returns The operation, with fragments expanded into `fields`
+ * @throws GraphQLSyntaxError if the document cannot be read or names no single operation
+ */
+export function parseOperation(document: string, operationName?: string): GraphQLOperation {
+  const reader = new DocumentReader(tokenize(document));
+  const operations: Array<{ type: GraphQLOperationType; name?: string; selections: Selection[] }> =
+    [];
+  const fragments = new Map<string, Selection[]>();
+
+  while (!reader.done) {
+    if (reader.peek('{')) {
+      operations.push({ type: 'query', selections: reader.selectionSet() });
+      continue;
+    }
+
+    const keyword = reader.name();
+    if (keyword === 'fragment') {
+      const name = reader.name();
+      reader.expect('on');
+      reader.name();
+      reader.directives();
+      fragments.set(name, reader.selectionSet());
+    } else if (keyword === 'query' || keyword === 'mutation' || keyword === 'subscription') {
+      const name =
+        reader.peek('(') || reader.peek('@') || reader.peek('{') ? undefined : reader.name();
+      if (reader.peek('(')) {
+        reader.skipGroup('(', ')');
+      }
+      reader.directives();
+      operations.push({ type: keyword, name, selections: reader.selectionSet() });
+    } else {
+      throw new GraphQLSyntaxError(`unexpected "${keyword}"`);
+    }
+  }
+
+  const operation = operationName
+    ? operations.find((candidate) => candidate.name === operationName)
+    : operations.length === 1
+      ? operations[0]
+      : undefined;
+  if (!operation) {
+    throw new GraphQLSyntaxError(
+      operationName ? `unknown operation "${operationName}"` : 'operationName is required'
+    );
+  }
+
+  const fields: GraphQLField[] = [];
+  const rootFields: GraphQLField[] = [];
+
+  const visit = (selections: Selection[], parentPath: string, spreading: Set<string>) => {
+    for (const selection of selections) {
+      if (selection.kind === 'inline') {
+        visit(selection.selections, parentPath, spreading);
+      } else if (selection.kind === 'spread') {
+        const fragment = fragments.get(selection.name);
+        if (!fragment) {
+          throw new GraphQLSyntaxError(`unknown fragment "${selection.name}"`);
+        }
+        // Fragments cannot spread themselves; stop instead of looping
+        if (!spreading.has(selection.name)) {
+          visit(fragment, parentPath, new Set(spreading).add(selection.name));
+        }
+      } else {
+        const path = parentPath ? `${parentPath}.${selection.name}` : selection.name;
+        const field: GraphQLField = {
+          name: selection.name,
+          responseKey: selection.alias || selection.name,
+          path,
+          hint: toCacheHint(selection.directives),
+        };
+        fields.push(field);
+        if (!parentPath) {
+          rootFields.push(field);
+        }
+        if (selection.selections) {
+          visit(selection.selections, path, spreading);
+        }
+      }
+    }
+  };
+  visit(operation.selections, '', new Set());
+
+  return { type: operation.type, name: operation.name, rootFields, fields };
+}
+
+/**
+ * Canonical form of a document: tokens separated by single spaces, so formatting and
+ * comments do not change cache keys
+ *
+ * @param document - GraphQL document
+ * @returns Normalized document
+ * @throws GraphQLSyntaxError if the document cannot be tokenized
+ */
+export function normalizeDocument(document: string): string {
+  return tokenize(document)
+    .map((token) => token.value)
+    .join(' ');
+}
+
+/**
+ * Entity tags of a GraphQL result: `<__typename>:<id>` for every object holding both,
+ * at any depth
+ *
+ * @param data - Result data (or any part of it)
+ * @returns Distinct entity tags
+ */
+export function collectEntityTags(data: unknown): string[] {
+  const tags = new Set<string>();
+
+  const walk = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(walk);
+    } else if (value !== null && typeof value === 'object') {
+      const object = value as Record<string, unknown>;
+      const id = object.id;
+      if (
+        typeof object.__typename === 'string' &&
+        (typeof id === 'string' || typeof id === 'number')
+      ) {
+        tags.add(`${object.__typename}:${id}`);
+      }
+      Object.values(object).forEach(walk);
+    }
+  };
+  walk(data);
+
+  return Array.from(tags);
+}
+
+/**
+ * Combine the hints of the selected fields the way `@cacheControl` does: the lowest
+ * `maxAge` wins, and any private field makes the whole response private
+ *
+ * Directives come from the client, so they are ignored unless `directives` is set, and even
+ * then only tighten the server's hints: a lower `maxAge` or a PRIVATE scope.
+ *
+ * @param fields - Selected fields
+ * @param hints - Hints by field path (e.g. { 'user': { maxAge: 60 }, 'user.email': { scope: 'PRIVATE' } })
+ * @param directives - Also apply the fields' `@cacheControl` directives
+ * @returns Combined hint (empty when no field has one)
+ */
+export function resolveCacheHint(
+  fields: GraphQLField[],
+  hints: Record<string, CacheHint> = {},
+  directives: boolean = false
+): CacheHint {
+  const policy: CacheHint = {};
+
+  for (const field of fields) {
+    for (const hint of [hints[field.path], directives ? field.hint : undefined]) {
+      if (hint?.maxAge !== undefined) {
+        policy.maxAge = Math.min(policy.maxAge ?? Infinity, hint.maxAge);
+      }
+      if (hint?.scope === 'PRIVATE') {
+        policy.scope = 'PRIVATE';
+      }
+    }
+  }
+
+  return policy;
+}
+
+/**
+ * Hint of a field's `@cacheControl` directive
+ * @private
+ */
+function toCacheHint(directives: Directive[]): CacheHint | undefined {
+  const directive = directives.find((candidate) => candidate.name === 'cacheControl');
+  if (!directive) {
+    return undefined;
+  }
+
+  const hint: CacheHint = {};
+  if (typeof directive.args.maxAge === 'number') {
+    hint.maxAge = directive.args.maxAge;
+  }
+  if (directive.args.scope === 'PRIVATE' || directive.args.scope === 'PUBLIC') {
+    hint.scope = directive.args.scope;
+  }
+  return hint;
+}
@@ -0,0 +1,207 @@
+import crypto from 'crypto';
+import { IncomingHttpHeaders, OutgoingHttpHeaders, ServerResponse } from 'http';
+import { CacheControlConfig, CachedResponse } from './types';
+import { StalePolicy } from './entry';
+
+/**
+ * Response headers written by the framework-neutral helpers: a Node response, or a view over
+ * a Fastify reply or Koa context
+ */
+export interface HeaderTarget {
+  getHeader(name: string): number | string | string[] | undefined;
+  setHeader(name: string, value: number | string | string[]): unknown;
+}
+
+/**
+ * Compute a strong entity tag for a response body
+ *
+ * @param body - Raw response body
+ * @returns Quoted ETag (e.g., `"1f-2jmj7l5rSw0yVb/vlWAYkK/YBwk"`)
+ */
+export function createETag(body: Buffer): string {
+  const hash = crypto.createHash('sha1').update(body).digest('base64').substring(0, 27);
+  return `"${body.length.toString(16)}-${hash}"`;
+}
+
+/**
+ * Check a conditional GET against a cached response's validators
+ * `If-None-Match` takes precedence over `If-Modified-Since` (RFC 9110 §13.2.2)
+ *
+ * @param headers - Request headers
+ * @param response - Cached response
+ * @returns True if a 304 Not Modified should be sent
+ */
+export function isNotModified(
+  headers: IncomingHttpHeaders,
+  response: Pick<CachedResponse, 'etag' | 'lastModified'>
+): boolean {
+  const ifNoneMatch = headers['if-none-match'];
+  if (ifNoneMatch) {
+    if (!response.etag) {
+      return false;
+    }
+    if (ifNoneMatch.trim() === '*') {
+      return true;
+    }
+
+    // Weak comparison: W/"x" matches "x"
+    const etag = stripWeak(response.etag);
+    return ifNoneMatch.split(',').some((tag) => stripWeak(tag.trim()) === etag);
+  }
+
+  const ifModifiedSince = headers['if-modified-since'];
+  if (ifModifiedSince && response.lastModified !== undefined) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates have second precision
+    return !Number.isNaN(since) && Math.floor(response.lastModified / 1000) * 1000 <= since;
+  }
+
+  return false;
+}
+
+/**
+ * Parse the `Cache-Control` header of a request or response
+ *
+ * @param headers - Request or response headers (names in any case)
+ * @returns Directives by lowercase name; directives without a value map to ''
+ */
+export function parseCacheControl(
+  headers: IncomingHttpHeaders | OutgoingHttpHeaders
+): Record<string, string> {
+  const name = Object.keys(headers).find((field) => field.toLowerCase() === 'cache-control');
+  const value = name === undefined ? undefined : headers[name];
+  const directives: Record<string, string> = {};
+  if (value === undefined) {
+    return directives;
+  }
+
+  for (const part of (Array.isArray(value) ? value.join(',') : String(value)).split(',')) {
+    const index = part.indexOf('=');
+    const directive = (index === -1 ? part : part.substring(0, index)).trim().toLowerCase();
+    if (directive) {
+      directives[directive] =
+        index === -1
+          ? ''
+          : part
+              .substring(index + 1)
+              .trim()
+              .replace(/^"|"$/g, '');
+    }
+  }
+  return directives;
+}
+
+/**
+ * Build a `Cache-Control` value
+ *
+ * @param config - Cache-Control settings
+ * @param maxAge - Seconds the response stays fresh (overridden by config.maxAge)
+ * @param policy - Stale windows advertised as `stale-while-revalidate` / `stale-if-error`
+ * @returns Header value (e.g., `public, max-age=60, stale-while-revalidate=30`)
+ */
+export function formatCacheControl(
+  config: CacheControlConfig,
+  maxAge: number,
+  policy: StalePolicy = {}
+): string {
+  const seconds = config.maxAge !== undefined ? config.maxAge : maxAge;
+  const directives = [config.visibility || 'public', `max-age=${Math.max(0, Math.ceil(seconds))}`];
+
+  if (config.sMaxAge !== undefined) {
+    directives.push(`s-maxage=${config.sMaxAge}`);
+  }
+  if (policy.staleWhileRevalidate) {
+    directives.push(`stale-while-revalidate=${policy.staleWhileRevalidate}`);
+  }
+  if (policy.staleIfError) {
+    directives.push(`stale-if-error=${policy.staleIfError}`);
+  }
+
+  return directives.join(', ');
+}
+
+/**
+ * Add header names to `Vary`, keeping names already present
+ *
+ * @param res - Node/Express response, or any header target
+ * @param fields - Request header names
+ */
+export function appendVary(res: HeaderTarget, fields: string[]): void {
+  const current = res.getHeader('Vary');
+  const names = current
+    ? String(current)
+        .split(',')
+        .map((name) => name.trim())
+        .filter(Boolean)
+    : [];
+
+  if (names.includes('*')) {
+    return;
+  }
+
+  const seen = new Set(names.map((name) => name.toLowerCase()));
+  for (const field of fields) {
+    if (!seen.has(field.toLowerCase())) {
+      seen.add(field.toLowerCase());
+      names.push(field);
+    }
+  }
+
+  if (names.length > 0) {
+    res.setHeader('Vary', names.join(', '));
+  }
+}
+
+/**
+ * Call `listener` right before the response headers are written
+ * Node writes headers through `writeHead`, including implicitly on the first write. Headers
+ * passed to `writeHead` take precedence over those already set, but are not visible through
+ * `res.getHeader` yet: the listener receives them separately.
+ *
+ * @param res - Node/Express response
+ * @param listener - Receives the response, which may still set headers, and the headers
+ * passed to `writeHead` with lowercase names
+ */
+export function beforeHeaders(
+  res: ServerResponse,
+  listener: (res: ServerResponse, headers: OutgoingHttpHeaders) => void
+): void {
+  const originalWriteHead = res.writeHead;
+  let fired = false;
+
+  (res as any).writeHead = function (statusCode: number, ...args: any[]) {
+    if (!fired) {
+      fired = true;
+      res.statusCode = statusCode;
+      listener(res, toHeaderObject(typeof args[0] === 'string' ? args[1] : args[0]));
+    }
+    return (originalWriteHead as any).call(this, statusCode, ...args);
+  };
+}
+
+/**
+ * Headers passed to `writeHead` as an object with lowercase names
+ * Node also accepts a flat `[name, value, name, value]` array.
+ * @private
+ */
+function toHeaderObject(headers: OutgoingHttpHeaders | unknown[] | undefined): OutgoingHttpHeaders {
+  const result: OutgoingHttpHeaders = {};
+  if (Array.isArray(headers)) {
+    for (let i = 0; i + 1 < headers.length; i += 2) {
+      result[String(headers[i]).toLowerCase()] = headers[i + 1] as string | string[];
+    }
+  } else if (headers) {
+    for (const name of Object.keys(headers)) {
+      result[name.toLowerCase()] = headers[name];
+    }
+  }
+  return result;
+}
+
+/**
+ * Remove the weak indicator from an entity tag
+ * @private
+ */
+function stripWeak(tag: string): string {
+  return tag.startsWith('W/') ? tag.substring(2) : tag;
+}
@@ -0,0 +1,98 @@
+import { Redis, Cluster } from 'ioredis';
+import crypto from 'crypto';
+import { CacheStore, InvalidationMessage } from './types';
+import { toCacheStore } from './redis-store';
+
+/**
+ * Default pub/sub channel for invalidation events
+ */
+export const DEFAULT_INVALIDATION_CHANNEL = 'osmium:invalidate';
+
+/**
+ * Broadcasts cache invalidations to every instance over Redis pub/sub
+ *
+ * Publishing uses the shared client; on Redis, subscribing uses a dedicated connection
+ * (created with `duplicate()`) because a subscribed connection cannot run other commands.
+ * Messages published by this instance are not delivered to its own listeners.
+ */
+export class InvalidationBus {
+  /** Unique id of this process, stamped on every published message */
+  readonly instanceId: string;
+
+  private store: CacheStore;
+  private channel: string;
+  private subscription: Promise<(() => Promise<void>) | null> | null = null;
+  private listeners: Array<(message: InvalidationMessage) => void> = [];
+
+  /**
+   * Create a new InvalidationBus
+   *
+   * @param redisClient - Redis, Cluster or CacheStore instance used for publishing
+   * @param channel - Pub/sub channel (default: 'osmium:invalidate')
+   */
+  constructor(
+    redisClient: Redis | Cluster | CacheStore,
+    channel: string = DEFAULT_INVALIDATION_CHANNEL
+  ) {
+    this.store = toCacheStore(redisClient);
+    this.channel = channel;
+    this.instanceId = crypto.randomBytes(8).toString('hex');
+  }
+
+  /**
+   * Receive invalidations published by other instances
+   * The subscriber connection is opened on the first call
+   *
+   * @param listener - Called with each remote invalidation
+   */
+  subscribe(listener: (message: InvalidationMessage) => void): void {
+    this.listeners.push(listener);
+
+    if (this.subscription) {
+      return;
+    }
+
+    const handle = (payload: string) => {
+      try {
+        const message = JSON.parse(payload) as InvalidationMessage;
+        if (message.origin === this.instanceId) {
+          return;
+        }
+        for (const handler of this.listeners) {
+          handler(message);
+        }
+      } catch (error) {
+        console.error('Cache invalidation message error:', error);
+      }
+    };
+
+    this.subscription = this.store.subscribe(this.channel, handle).catch((error: Error) => {
+      console.error('Cache invalidation subscribe error:', error);
+      return null;
+    });
+  }
+
+  /**
+   * Publish an invalidation to other instances
+   *
+   * @param message - Keys and/or patterns that were invalidated
+   */
+  async publish(message: Omit<InvalidationMessage, 'origin'>): Promise<void> {
+    const payload: InvalidationMessage = { origin: this.instanceId, ...message };
+    await this.store.publish(this.channel, JSON.stringify(payload));
+  }
+
+  /**
+   * End the subscription (closing its connection on Redis)
+   */
+  async close(): Promise<void> {
+    const subscription = this.subscription;
+    this.subscription = null;
+    this.listeners = [];
+
+    const unsubscribe = subscription ? await subscription : null;
+    if (unsubscribe) {
+      await unsubscribe();
+    }
+  }
+}
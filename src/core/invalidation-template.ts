@@ -0,0 +1,109 @@
+import { IncomingHttpHeaders } from 'http';
+import { escapeGlob } from './local-cache';
+import { getPath } from './vary';
+
+/**
+ * Request and response data placeholders are resolved against
+ */
+export interface TemplateContext {
+  params?: Record<string, any>;
+  query?: Record<string, any>;
+  body?: any;
+  headers?: IncomingHttpHeaders;
+  user?: any;
+  response?: any;
+}
+
+/**
+ * Sources a placeholder may read (`{params.id}`, `{response.org.id}`, ...)
+ */
+const SOURCES: Array<keyof TemplateContext> = [
+  'params',
+  'query',
+  'body',
+  'headers',
+  'user',
+  'response',
+];
+
+/**
+ * Thrown when an invalidation template is malformed or a placeholder has no value
+ */
+export class TemplateError extends Error {
+  constructor(
+    public readonly template: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+/**
+ * Template compiled by compileTemplate
+ */
+export interface CompiledTemplate {
+  /** Template source */
+  readonly template: string;
+
+  /**
+   * Fill in the placeholders
+   *
+   * @param context - Request and response data
+   * @returns Resolved tag, key or pattern
+   * @throws TemplateError if a placeholder has no string or number value
+   */
+  resolve(context: TemplateContext): string;
+}
+
+/**
+ * Compile an invalidation template such as `'user:{params.id}'` or `'org:{body.orgId}:*'`
+ *
+ * Placeholders read a dot path from `params`, `query`, `body`, `headers`, `user` or
+ * `response` (the data sent by the controller). Header names are case-insensitive.
+ *
+ * @param template - Tag, key or pattern with `{source.path}` placeholders
+ * @param glob - Escape glob characters in resolved values, so values only match themselves
+ * @returns Compiled template
+ * @throws TemplateError if a placeholder names an unknown source or no path
+ */
+export function compileTemplate(template: string, glob: boolean = false): CompiledTemplate {
+  const placeholders: Array<{ source: keyof TemplateContext; path: string }> = [];
+  const pattern = /\{([^{}]*)\}/g;
+
+  for (let match = pattern.exec(template); match; match = pattern.exec(template)) {
+    const placeholder = match[1];
+    const index = placeholder.indexOf('.');
+    const source = placeholder.substring(0, index) as keyof TemplateContext;
+    const path = placeholder.substring(index + 1);
+
+    if (index === -1 || !SOURCES.includes(source) || !path) {
+      throw new TemplateError(
+        template,
+        `Invalid placeholder "{${placeholder}}" in invalidation template "${template}"; ` +
+          `expected {<${SOURCES.join('|')}>.<path>}`
+      );
+    }
+    placeholders.push({ source, path: source === 'headers' ? path.toLowerCase() : path });
+  }
+
+  return {
+    template,
+    resolve(context: TemplateContext): string {
+      let i = 0;
+      return template.replace(/\{[^{}]*\}/g, (placeholder) => {
+        const { source, path } = placeholders[i++];
+        const value =
+          source === 'headers' ? context.headers?.[path] : getPath(context[source], path);
+
+        if ((typeof value !== 'string' && typeof value !== 'number') || value === '') {
+          throw new TemplateError(
+            template,
+            `Missing value for "${placeholder}" in invalidation template "${template}"`
+          );
+        }
+        return glob ? escapeGlob(String(value)) : String(value);
+      });
+    },
+  };
+}
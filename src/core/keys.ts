@@ -0,0 +1,107 @@
+import { CacheKey, CacheValidator } from './types';
+
+/**
+ * Placeholder names of a key template (`'user:{id}:posts:{page}'` → `'id' | 'page'`)
+ */
+type TemplateParams<S extends string> = S extends `${string}{${infer Name}}${infer Rest}`
+  ? Name | TemplateParams<Rest>
+  : never;
+
+/**
+ * Parameters required to build a key from a template
+ * Falls back to any string-keyed record when the template is not a literal type
+ */
+export type KeyParams<S extends string> = string extends S
+  ? Record<string, string | number>
+  : Record<TemplateParams<S>, string | number>;
+
+/**
+ * Key template paired with the type (and optional validator) of the values stored under it
+ */
+export interface KeyTemplate<T, S extends string = string> {
+  /** Template with `{name}` placeholders */
+  readonly template: S;
+
+  /** Validator applied when values are read through keys built from this template */
+  readonly validate?: CacheValidator<T>;
+
+  /**
+   * Build a key by filling in the template's placeholders
+   *
+   * @param params - Placeholder values
+   * @returns Typed key accepted by CacheService methods
+   */
+  build(params: KeyParams<S>): CacheKey<T>;
+}
+
+/**
+ * Define a typed cache key template
+ *
+ * The value type is inferred from the validator. Without one, call `defineKey<T>()` first so
+ * the template's placeholders are still inferred: `defineKey<T>('user:{id}')` does not compile.
+ *
+ * @example
+ * ```typescript
+ * const userKey = defineKey<User>()('user:{id}');
+ * await cache.set(userKey.build({ id: 42 }), user); // value must be a User
+ * const cached = await cache.get(userKey.build({ id: 42 })); // User | null
+ * userKey.build({ nope: 1 }); // type error
+ *
+ * const validatedKey = defineKey('user:{id}', UserSchema); // value type from the validator
+ * ```
+ *
+ * @param template - Key template with `{name}` placeholders
+ * @param validate - Validator applied when reading keys built from the template
+ * @returns Key template, or a function taking them when called without arguments
+ */
+export function defineKey<T = any>(): <S extends string>(
+  template: S,
+  validate?: CacheValidator<T>
+) => KeyTemplate<T, S>;
+export function defineKey<T = any, S extends string = never>(
+  template: S,
+  validate?: CacheValidator<T>
+): KeyTemplate<T, S>;
+export function defineKey(
+  template?: string,
+  validate?: CacheValidator<any>
+): KeyTemplate<any> | ((template: string, validate?: CacheValidator<any>) => KeyTemplate<any>) {
+  return template === undefined ? createKeyTemplate : createKeyTemplate(template, validate);
+}
+
+/**
+ * Key template for a template string and validator
+ * @private
+ */
+function createKeyTemplate<T, S extends string>(
+  template: S,
+  validate?: CacheValidator<T>
+): KeyTemplate<T, S> {
+  return {
+    template,
+    validate,
+    build(params: KeyParams<S>): CacheKey<T> {
+      const values = params as Record<string, string | number>;
+      const key = template.replace(/\{([^{}]+)\}/g, (_, name: string) => {
+        const value = values[name];
+        if (value === undefined || value === null || value === '') {
+          throw new Error(`Missing value for "{${name}}" in cache key template "${template}"`);
+        }
+        return String(value);
+      });
+      return { key, validate };
+    },
+  };
+}
+
+/**
+ * Run a validator, supporting both plain functions and schema objects with `parse`
+ *
+ * @param validate - Validator
+ * @param value - Cached value
+ * @returns Validated (possibly decoded) value
+ * @throws If the value is rejected
+ */
+export function runValidator<T>(validate: CacheValidator<T>, value: unknown): T {
+  return typeof validate === 'function' ? validate(value) : validate.parse(value);
+}
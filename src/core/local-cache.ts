@@ -0,0 +1,175 @@
+import { L1Stats } from './types';
+
+interface LocalEntry {
+  value: string | Buffer;
+  expiresAt: number;
+}
+
+/**
+ * Bounded in-process LRU cache used as the L1 tier in front of Redis
+ *
+ * Values are kept in their serialized form and parsed on every read, so callers
+ * mutating a returned object can never corrupt the cached copy.
+ */
+export class LocalCache {
+  private entries = new Map<string, LocalEntry>();
+  private maxEntries: number;
+  private defaultTTL: number;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  /**
+   * Create a new LocalCache
+   *
+   * @param maxEntries - Maximum number of entries held in memory (default: 1000)
+   * @param defaultTTL - Default time to live in seconds (default: 30)
+   */
+  constructor(maxEntries: number = 1000, defaultTTL: number = 30) {
+    this.maxEntries = maxEntries;
+    this.defaultTTL = defaultTTL;
+  }
+
+  /**
+   * Get a serialized value
+   *
+   * @param key - Fully qualified cache key
+   * @returns Serialized value or undefined if missing or expired
+   */
+  get(key: string): string | Buffer | undefined {
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.entries.delete(key);
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  /**
+   * Store a serialized value, evicting the least recently used entry when full
+   *
+   * @param key - Fully qualified cache key
+   * @param value - Serialized value
+   * @param ttl - Time to live in seconds, capped at the L1 TTL
+   */
+  set(key: string, value: string | Buffer, ttl?: number): void {
+    const seconds = Math.min(ttl || this.defaultTTL, this.defaultTTL);
+
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + seconds * 1000 });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  /**
+   * Remove entries by key
+   *
+   * @param keys - Fully qualified cache key(s)
+   */
+  delete(keys: string | string[]): void {
+    for (const key of Array.isArray(keys) ? keys : [keys]) {
+      this.entries.delete(key);
+    }
+  }
+
+  /**
+   * Remove entries whose key matches a Redis glob pattern
+   *
+   * @param pattern - Glob pattern (e.g., 'app:list:*')
+   */
+  deleteMatching(pattern: string): void {
+    const matcher = globToRegExp(pattern);
+    for (const key of Array.from(this.entries.keys())) {
+      if (matcher.test(key)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Hit/miss counters and current size
+   */
+  stats(): L1Stats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      size: this.entries.size,
+    };
+  }
+}
+
+/**
+ * Convert a Redis glob pattern (*, ?, [...], \ escapes) to a regular expression
+ *
+ * @param pattern - Redis glob pattern
+ * @returns Anchored regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        // Character classes (including ^ negation) share regex syntax
+        source += `[${pattern.slice(i + 1, end)}]`;
+        i = end;
+      }
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`, 's');
+}
+
+/**
+ * Escape Redis glob special characters so a string matches only itself
+ *
+ * @param value - Literal text (e.g., a key prefix)
+ * @returns Escaped glob
+ */
+export function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+/**
+ * Escape text for use in a regular expression
+ *
+ * @param value - Literal text
+ * @returns Escaped source
+ */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
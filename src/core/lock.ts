@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+import { CacheStore, StampedeConfig } from './types';
+
+/**
+ * Thrown when waiting for another instance to populate a key takes longer than allowed
+ * and the stampede fallback is 'error'
+ */
+export class LockTimeoutError extends Error {
+  constructor(
+    public readonly key: string,
+    public readonly waited: number
+  ) {
+    super(`Timed out after ${waited}ms waiting for cache key ${key} to be populated`);
+    this.name = 'LockTimeoutError';
+  }
+}
+
+/**
+ * Try to acquire a lock (SET NX PX on Redis)
+ *
+ * @param store - Cache store
+ * @param lockKey - Fully qualified lock key
+ * @param timeoutMs - Lock expiry in milliseconds
+ * @returns Lock token if acquired, null if the lock is held elsewhere
+ */
+export async function acquireLock(
+  store: CacheStore,
+  lockKey: string,
+  timeoutMs: number
+): Promise<string | null> {
+  const token = crypto.randomBytes(16).toString('hex');
+  return (await store.setIfAbsent(lockKey, token, timeoutMs)) ? token : null;
+}
+
+/**
+ * Release a lock if it is still held with the given token,
+ * so a holder whose lock expired cannot release a lock taken over by someone else
+ *
+ * @param store - Cache store
+ * @param lockKey - Fully qualified lock key
+ * @param token - Token returned by acquireLock
+ * @returns True if the lock was released
+ */
+export async function releaseLock(
+  store: CacheStore,
+  lockKey: string,
+  token: string
+): Promise<boolean> {
+  return store.deleteIfEquals(lockKey, token);
+}
+
+/**
+ * Run a task once per key at a time; concurrent callers share the pending result
+ *
+ * @param inflight - Map of pending tasks
+ * @param key - Coalescing key
+ * @param task - Task to run
+ * @returns Result of the (possibly shared) task
+ */
+export function singleFlight<T>(
+  inflight: Map<string, Promise<any>>,
+  key: string,
+  task: () => Promise<T>
+): Promise<T> {
+  const pending = inflight.get(key);
+  if (pending) {
+    return pending;
+  }
+
+  const promise = task().finally(() => inflight.delete(key));
+  inflight.set(key, promise);
+  return promise;
+}
+
+/**
+ * Apply defaults to a stampede configuration
+ *
+ * @param config - User supplied stampede configuration
+ * @returns Configuration with all options set
+ */
+export function resolveStampedeConfig(config: StampedeConfig = {}): Required<StampedeConfig> {
+  const lockTimeout = config.lockTimeout ?? 5000;
+
+  return {
+    singleFlight: config.singleFlight ?? true,
+    distributedLock: config.distributedLock ?? false,
+    lockTimeout,
+    waitTimeout: config.waitTimeout ?? lockTimeout,
+    pollInterval: config.pollInterval ?? 50,
+    fallback: config.fallback ?? 'fetch',
+  };
+}
@@ -0,0 +1,382 @@
+import { EventEmitter } from 'events';
+import { CacheStore, StoredValue, TenantQuota, TenantUsage } from './types';
+import { globToRegExp } from './local-cache';
+
+/**
+ * Size and expiry (epoch ms) of a key counted against a tenant's quota
+ */
+interface QuotaRecord {
+  size: number;
+  expiresAt: number;
+}
+
+/**
+ * Stored key: a string value, a set, or a tenant's quota bookkeeping
+ */
+interface MemoryEntry {
+  value: Buffer | Set<string> | Map<string, QuotaRecord>;
+  expiresAt: number | null;
+}
+
+/**
+ * In-process cache store with Redis semantics, for tests and local development
+ *
+ * Implements the GET/SETEX/DEL/SADD/SMEMBERS/SCAN/TTL/INCR behavior CacheService relies on,
+ * including key expiry (checked lazily on access). Every operation runs synchronously, so
+ * multi-key operations are atomic like the Lua scripts used on Redis.
+ *
+ * Data lives in the process: pub/sub only reaches services sharing the same store,
+ * and nothing is persisted.
+ *
+ * @example
+ * ```typescript
+ * const store = new MemoryStore();
+ * app.use(cacheMiddleware(store, { ttl: 60 }));
+ * ```
+ */
+export class MemoryStore implements CacheStore {
+  private entries = new Map<string, MemoryEntry>();
+  private channels = new EventEmitter();
+
+  constructor() {
+    // Any number of invalidation buses may share the store
+    this.channels.setMaxListeners(0);
+  }
+
+  /**
+   * Number of live keys
+   */
+  get size(): number {
+    this.purgeExpired();
+    return this.entries.size;
+  }
+
+  /**
+   * Delete every key
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  async getMany(keys: string[], withTtl: boolean = false): Promise<Array<StoredValue | null>> {
+    return keys.map((key) => {
+      const entry = this.read(key);
+      if (!entry || !Buffer.isBuffer(entry.value)) {
+        return null;
+      }
+      return { data: entry.value, pttl: withTtl ? this.pttl(key) : -1 };
+    });
+  }
+
+  async setMany(
+    entries: Array<[string, string | Buffer]>,
+    ttl: number,
+    tagKeys: string[]
+  ): Promise<void> {
+    const expiresAt = Date.now() + ttl * 1000;
+
+    for (const [key, data] of entries) {
+      this.entries.set(key, {
+        value: Buffer.isBuffer(data) ? data : Buffer.from(data),
+        expiresAt,
+      });
+    }
+
+    for (const tagKey of tagKeys) {
+      const current = this.read(tagKey);
+      const members = this.readSet(tagKey);
+      for (const [key] of entries) {
+        members.add(key);
+      }
+      // Never shorten the set's TTL, so it lives as long as its longest-lived member
+      const keep = current && current.expiresAt !== null && current.expiresAt > expiresAt;
+      this.entries.set(tagKey, { value: members, expiresAt: keep ? current.expiresAt : expiresAt });
+    }
+  }
+
+  async del(keys: string[]): Promise<number> {
+    let deleted = 0;
+    for (const key of new Set(keys)) {
+      if (this.read(key)) {
+        this.entries.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async scan(pattern: string): Promise<string[]> {
+    this.purgeExpired();
+    const regex = globToRegExp(pattern);
+    return Array.from(this.entries.keys()).filter((key) => regex.test(key));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.read(key) !== null;
+  }
+
+  async ttl(key: string): Promise<number> {
+    const pttl = this.pttl(key);
+    return pttl < 0 ? pttl : Math.round(pttl / 1000);
+  }
+
+  async incr(key: string): Promise<number> {
+    const entry = this.read(key);
+    const value = entry ? this.counterValue(entry) + 1 : 1;
+    // Like INCR, the key keeps its TTL
+    this.entries.set(key, {
+      value: Buffer.from(String(value)),
+      expiresAt: entry ? entry.expiresAt : null,
+    });
+    return value;
+  }
+
+  async getCounter(key: string): Promise<number> {
+    const entry = this.read(key);
+    return entry ? this.counterValue(entry) : 0;
+  }
+
+  async popTag(tagKey: string): Promise<string[]> {
+    const members = Array.from(this.readSet(tagKey));
+    this.entries.delete(tagKey);
+    return members;
+  }
+
+  async sweepTags(
+    pattern: string,
+    _count?: number,
+    skip?: (tagKey: string) => boolean
+  ): Promise<number> {
+    let removed = 0;
+
+    for (const tagKey of await this.scan(pattern)) {
+      const entry = this.read(tagKey);
+      if (!entry || !(entry.value instanceof Set) || skip?.(tagKey)) {
+        continue;
+      }
+
+      for (const member of Array.from(entry.value)) {
+        if (!this.read(member)) {
+          entry.value.delete(member);
+          removed++;
+        }
+      }
+      // Like Redis, empty sets are deleted
+      if (entry.value.size === 0) {
+        this.entries.delete(tagKey);
+      }
+    }
+
+    return removed;
+  }
+
+  async addMembers(key: string, members: string[]): Promise<void> {
+    if (members.length === 0) {
+      return;
+    }
+    const set = this.readSet(key);
+    for (const member of members) {
+      set.add(member);
+    }
+    this.entries.set(key, { value: set, expiresAt: this.read(key)?.expiresAt ?? null });
+  }
+
+  async removeMembers(key: string, members: string[]): Promise<void> {
+    const set = this.readSet(key);
+    for (const member of members) {
+      set.delete(member);
+    }
+    if (set.size === 0) {
+      this.entries.delete(key);
+    }
+  }
+
+  async getMembers(key: string): Promise<string[]> {
+    return Array.from(this.readSet(key));
+  }
+
+  async setIfAbsent(key: string, value: string, ttlMs: number): Promise<boolean> {
+    if (this.read(key)) {
+      return false;
+    }
+    this.entries.set(key, { value: Buffer.from(value), expiresAt: Date.now() + ttlMs });
+    return true;
+  }
+
+  async deleteIfEquals(key: string, value: string): Promise<boolean> {
+    const entry = this.read(key);
+    if (!entry || !Buffer.isBuffer(entry.value) || entry.value.toString() !== value) {
+      return false;
+    }
+    this.entries.delete(key);
+    return true;
+  }
+
+  async reserveQuota(
+    tenantPrefix: string,
+    key: string,
+    ttl: number,
+    size: number,
+    quota: TenantQuota
+  ): Promise<boolean> {
+    const records = this.quotaRecords(tenantPrefix);
+    const previous = records.get(key);
+
+    let count = records.size;
+    let bytes = this.quotaBytes(records);
+    if (previous) {
+      bytes += size - previous.size;
+    } else {
+      count++;
+      bytes += size;
+    }
+
+    if ((quota.maxKeys && count > quota.maxKeys) || (quota.maxBytes && bytes > quota.maxBytes)) {
+      return false;
+    }
+
+    records.set(key, { size, expiresAt: Date.now() + ttl * 1000 });
+    const expiresAt = Math.max(...Array.from(records.values(), (record) => record.expiresAt));
+    this.entries.set(`${tenantPrefix}:quota`, { value: records, expiresAt });
+    return true;
+  }
+
+  async releaseQuota(tenantPrefix: string, keys: string[]): Promise<void> {
+    const records = this.quotaRecords(tenantPrefix);
+    for (const key of keys) {
+      records.delete(key);
+    }
+    if (records.size === 0) {
+      this.entries.delete(`${tenantPrefix}:quota`);
+    }
+  }
+
+  async releaseQuotaExcept(tenantPrefix: string, keyPrefix: string): Promise<void> {
+    const records = this.quotaRecords(tenantPrefix);
+    await this.releaseQuota(
+      tenantPrefix,
+      Array.from(records.keys()).filter((key) => !key.startsWith(keyPrefix))
+    );
+  }
+
+  async getQuotaUsage(tenantPrefix: string): Promise<TenantUsage> {
+    const records = this.quotaRecords(tenantPrefix);
+    return { keys: records.size, bytes: this.quotaBytes(records) };
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    this.channels.emit(channel, message);
+  }
+
+  async subscribe(
+    channel: string,
+    listener: (message: string) => void
+  ): Promise<() => Promise<void>> {
+    this.channels.on(channel, listener);
+    return async () => {
+      this.channels.off(channel, listener);
+    };
+  }
+
+  async ping(): Promise<void> {
+    // Always reachable
+  }
+
+  /**
+   * Live entry of a key, deleting it if it has expired
+   * @private
+   */
+  private read(key: string): MemoryEntry | null {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry;
+  }
+
+  /**
+   * Members of a set key (empty if missing)
+   * @private
+   * @throws If the key holds another type, like Redis' WRONGTYPE
+   */
+  private readSet(key: string): Set<string> {
+    const entry = this.read(key);
+    if (!entry) {
+      return new Set();
+    }
+    if (!(entry.value instanceof Set)) {
+      throw new Error('WRONGTYPE Operation against a key holding the wrong kind of value');
+    }
+    return entry.value;
+  }
+
+  /**
+   * Remaining time to live in milliseconds, -1 without expiry, -2 if missing
+   * @private
+   */
+  private pttl(key: string): number {
+    const entry = this.read(key);
+    if (!entry) {
+      return -2;
+    }
+    return entry.expiresAt === null ? -1 : entry.expiresAt - Date.now();
+  }
+
+  /**
+   * Integer held by a counter key
+   * @private
+   * @throws If the key does not hold an integer, like Redis' INCR
+   */
+  private counterValue(entry: MemoryEntry): number {
+    const value = Buffer.isBuffer(entry.value) ? Number(entry.value.toString()) : NaN;
+    if (!Number.isSafeInteger(value)) {
+      throw new Error('ERR value is not an integer or out of range');
+    }
+    return value;
+  }
+
+  /**
+   * Live quota records of a tenant, dropping those of expired keys
+   * @private
+   */
+  private quotaRecords(tenantPrefix: string): Map<string, QuotaRecord> {
+    const entry = this.read(`${tenantPrefix}:quota`);
+    if (!entry || !(entry.value instanceof Map)) {
+      return new Map();
+    }
+
+    const now = Date.now();
+    for (const [key, record] of entry.value) {
+      if (record.expiresAt <= now) {
+        entry.value.delete(key);
+      }
+    }
+    return entry.value;
+  }
+
+  /**
+   * Bytes counted by quota records
+   * @private
+   */
+  private quotaBytes(records: Map<string, QuotaRecord>): number {
+    let bytes = 0;
+    for (const record of records.values()) {
+      bytes += record.size;
+    }
+    return bytes;
+  }
+
+  /**
+   * Delete every expired key
+   * @private
+   */
+  private purgeExpired(): void {
+    for (const key of Array.from(this.entries.keys())) {
+      this.read(key);
+    }
+  }
+}
@@ -0,0 +1,265 @@
+import { MetricsConfig } from './types';
+
+type Labels = Record<string, string>;
+
+/**
+ * Content type of the Prometheus text exposition format
+ */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Default latency buckets in seconds (0.5ms - 2.5s)
+ */
+const DEFAULT_BUCKETS = [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5];
+
+/**
+ * Serialize label pairs as `{a="1",b="2"}`
+ * @private
+ */
+function formatLabels(labels: Labels): string {
+  const pairs = Object.keys(labels).map((name) => `${name}="${escapeLabelValue(labels[name])}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Escape backslashes, quotes and newlines in a label value
+ * @private
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Stable map key for a label set
+ * @private
+ */
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.keys(labels).map((name) => [name, labels[name]]));
+}
+
+/**
+ * Monotonic counter with labels
+ */
+export class Counter {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string
+  ) {}
+
+  /**
+   * Increment the counter for a label set
+   *
+   * @param labels - Label values
+   * @param value - Amount to add (default: 1)
+   */
+  inc(labels: Labels, value: number = 1): void {
+    const key = labelKey(labels);
+    const current = this.values.get(key);
+    if (current) {
+      current.value += value;
+    } else {
+      this.values.set(key, { labels, value });
+    }
+  }
+
+  /**
+   * Current value for a label set
+   */
+  get(labels: Labels): number {
+    return this.values.get(labelKey(labels))?.value || 0;
+  }
+
+  /**
+   * Render in Prometheus text format
+   */
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Drop all recorded values
+   */
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+/**
+ * Cumulative histogram with labels
+ */
+export class Histogram {
+  private values = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly buckets: number[] = DEFAULT_BUCKETS
+  ) {}
+
+  /**
+   * Record an observation
+   *
+   * @param labels - Label values
+   * @param value - Observed value (seconds for latencies)
+   */
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.values.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.values.set(key, series);
+    }
+
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) {
+        series.counts[i]++;
+      }
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Number of observations for a label set
+   */
+  count(labels: Labels): number {
+    return this.values.get(labelKey(labels))?.count || 0;
+  }
+
+  /**
+   * Render in Prometheus text format
+   */
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.values.values()) {
+      this.buckets.forEach((bucket, i) => {
+        const le = formatLabels({ ...labels, le: String(bucket) });
+        lines.push(`${this.name}_bucket${le} ${counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Drop all recorded values
+   */
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+/**
+ * Cache metrics registry rendering the Prometheus text exposition format
+ *
+ * Create one instance and pass it to every CacheService / cacheMiddleware that should report
+ * into it, then expose it with `metricsHandler()`.
+ */
+export class CacheMetrics {
+  /** Auto-cache responses by route, namespace and result (hit, miss, stale, error) */
+  readonly requests: Counter;
+
+  /** Cache lookups by namespace and tier (l1, l2, miss) */
+  readonly lookups: Counter;
+
+  /** Redis command latency by operation and namespace */
+  readonly redisDuration: Histogram;
+
+  /** Keys removed by invalidation, by namespace and method (key, tags, pattern) */
+  readonly invalidatedKeys: Counter;
+
+  /**
+   * Create a new metrics registry
+   *
+   * @param config - Metric name prefix and latency buckets
+   */
+  constructor(config: MetricsConfig = {}) {
+    const { prefix = 'osmium_', buckets = DEFAULT_BUCKETS } = config;
+
+    this.requests = new Counter(
+      `${prefix}cache_requests_total`,
+      'Auto-cache responses by route, namespace and result'
+    );
+    this.lookups = new Counter(
+      `${prefix}cache_lookups_total`,
+      'Cache lookups by namespace and serving tier'
+    );
+    this.redisDuration = new Histogram(
+      `${prefix}redis_operation_duration_seconds`,
+      'Latency of Redis cache operations in seconds',
+      buckets
+    );
+    this.invalidatedKeys = new Counter(
+      `${prefix}cache_invalidated_keys_total`,
+      'Cache keys removed by invalidation'
+    );
+  }
+
+  /**
+   * Record the outcome of an auto-cached request
+   */
+  recordRequest(route: string, namespace: string, result: string): void {
+    this.requests.inc({ route, namespace, result });
+  }
+
+  /**
+   * Record which tier served a lookup
+   */
+  recordLookup(namespace: string, tier: string): void {
+    this.lookups.inc({ namespace, tier });
+  }
+
+  /**
+   * Record the duration of a Redis operation
+   */
+  observeRedis(operation: string, namespace: string, seconds: number): void {
+    this.redisDuration.observe({ operation, namespace }, seconds);
+  }
+
+  /**
+   * Record keys removed by an invalidation
+   */
+  recordInvalidation(namespace: string, method: string, count: number): void {
+    this.invalidatedKeys.inc({ namespace, method }, count);
+  }
+
+  /**
+   * Render all metrics in the Prometheus text exposition format
+   */
+  render(): string {
+    const metrics = [this.requests, this.lookups, this.redisDuration, this.invalidatedKeys];
+    return `${metrics.map((metric) => metric.render()).join('\n')}\n`;
+  }
+
+  /**
+   * Drop all recorded values
+   */
+  reset(): void {
+    this.requests.reset();
+    this.lookups.reset();
+    this.redisDuration.reset();
+    this.invalidatedKeys.reset();
+  }
+}
+
+/**
+ * Start a timer returning elapsed seconds when stopped
+ */
+export function startTimer(): () => number {
+  const start = process.hrtime();
+  return () => {
+    const [seconds, nanoseconds] = process.hrtime(start);
+    return seconds + nanoseconds / 1e9;
+  };
+}
@@ -0,0 +1,544 @@
+/**
+ * Minimal MessagePack encoder/decoder used by the `msgpack` serializer
+ *
+ * Covers the MessagePack spec for nil, booleans, numbers, strings, binary, arrays and maps,
+ * plus the standard timestamp extension (-1) for Dates. JavaScript types without a
+ * MessagePack equivalent use application extensions:
+ *
+ *   ext 1  BigInt outside the 64-bit range (decimal string)
+ *   ext 2  Map (payload: MessagePack map, keys of any type)
+ *   ext 3  Set (payload: MessagePack array)
+ *
+ * 64-bit integer formats always decode to BigInt; numbers are written as 32-bit integers or
+ * float64, so they always decode to numbers.
+ */
+
+const EXT_TIMESTAMP = -1;
+const EXT_BIGINT = 1;
+const EXT_MAP = 2;
+const EXT_SET = 3;
+
+const INT64_MIN = -(BigInt(1) << BigInt(63));
+const UINT64_MAX = (BigInt(1) << BigInt(64)) - BigInt(1);
+
+/**
+ * Growable byte buffer
+ * @private
+ */
+class Writer {
+  private buffer = Buffer.allocUnsafe(256);
+  private length = 0;
+
+  private ensure(size: number): void {
+    if (this.length + size <= this.buffer.length) {
+      return;
+    }
+    const next = Buffer.allocUnsafe(Math.max(this.buffer.length * 2, this.length + size));
+    this.buffer.copy(next, 0, 0, this.length);
+    this.buffer = next;
+  }
+
+  u8(value: number): void {
+    this.ensure(1);
+    this.buffer[this.length++] = value;
+  }
+
+  u16(value: number): void {
+    this.ensure(2);
+    this.length = this.buffer.writeUInt16BE(value, this.length);
+  }
+
+  u32(value: number): void {
+    this.ensure(4);
+    this.length = this.buffer.writeUInt32BE(value, this.length);
+  }
+
+  i8(value: number): void {
+    this.ensure(1);
+    this.length = this.buffer.writeInt8(value, this.length);
+  }
+
+  i16(value: number): void {
+    this.ensure(2);
+    this.length = this.buffer.writeInt16BE(value, this.length);
+  }
+
+  i32(value: number): void {
+    this.ensure(4);
+    this.length = this.buffer.writeInt32BE(value, this.length);
+  }
+
+  i64(value: bigint): void {
+    this.ensure(8);
+    this.length = this.buffer.writeBigInt64BE(value, this.length);
+  }
+
+  u64(value: bigint): void {
+    this.ensure(8);
+    this.length = this.buffer.writeBigUInt64BE(value, this.length);
+  }
+
+  f64(value: number): void {
+    this.ensure(8);
+    this.length = this.buffer.writeDoubleBE(value, this.length);
+  }
+
+  bytes(data: Uint8Array): void {
+    this.ensure(data.length);
+    this.buffer.set(data, this.length);
+    this.length += data.length;
+  }
+
+  result(): Buffer {
+    return this.buffer.subarray(0, this.length);
+  }
+}
+
+/**
+ * Encode a value as MessagePack
+ *
+ * Like JSON, object properties that are undefined, functions or symbols are skipped, and
+ * objects with a `toJSON` method are encoded through it.
+ *
+ * @param value - Value to encode
+ * @returns Encoded bytes
+ */
+export function encode(value: any): Buffer {
+  const writer = new Writer();
+  write(writer, value);
+  return writer.result();
+}
+
+/**
+ * Decode MessagePack bytes produced by `encode`
+ *
+ * @param data - Encoded bytes
+ * @returns Decoded value
+ */
+export function decode(data: Buffer): any {
+  const reader = { data, offset: 0 };
+  const value = read(reader);
+  if (reader.offset !== data.length) {
+    throw new Error('Unexpected trailing bytes in MessagePack data');
+  }
+  return value;
+}
+
+/**
+ * Check whether a value is skipped as an object property
+ * @private
+ */
+function isSkipped(value: any): boolean {
+  return value === undefined || typeof value === 'function' || typeof value === 'symbol';
+}
+
+/**
+ * Encode one value
+ * @private
+ */
+function write(writer: Writer, value: any): void {
+  if (value === null || isSkipped(value)) {
+    writer.u8(0xc0);
+  } else if (typeof value === 'boolean') {
+    writer.u8(value ? 0xc3 : 0xc2);
+  } else if (typeof value === 'number') {
+    writeNumber(writer, value);
+  } else if (typeof value === 'bigint') {
+    writeBigInt(writer, value);
+  } else if (typeof value === 'string') {
+    writeString(writer, value);
+  } else if (value instanceof Uint8Array) {
+    writeBinary(writer, value);
+  } else if (value instanceof Date) {
+    writeDate(writer, value);
+  } else if (Array.isArray(value)) {
+    writeArrayHeader(writer, value.length);
+    for (const item of value) {
+      write(writer, item);
+    }
+  } else if (value instanceof Map) {
+    const inner = new Writer();
+    writeMapHeader(inner, value.size);
+    for (const [key, item] of value) {
+      write(inner, key);
+      write(inner, item);
+    }
+    writeExt(writer, EXT_MAP, inner.result());
+  } else if (value instanceof Set) {
+    const inner = new Writer();
+    writeArrayHeader(inner, value.size);
+    for (const item of value) {
+      write(inner, item);
+    }
+    writeExt(writer, EXT_SET, inner.result());
+  } else if (typeof value.toJSON === 'function') {
+    write(writer, value.toJSON());
+  } else {
+    const keys = Object.keys(value).filter((key) => !isSkipped(value[key]));
+    writeMapHeader(writer, keys.length);
+    for (const key of keys) {
+      writeString(writer, key);
+      write(writer, value[key]);
+    }
+  }
+}
+
+/**
+ * @private
+ */
+function writeNumber(writer: Writer, value: number): void {
+  if (!Number.isInteger(value) || Object.is(value, -0)) {
+    writer.u8(0xcb);
+    writer.f64(value);
+  } else if (value >= 0 && value < 0x80) {
+    writer.u8(value);
+  } else if (value < 0 && value >= -0x20) {
+    writer.i8(value);
+  } else if (value >= 0 && value <= 0xff) {
+    writer.u8(0xcc);
+    writer.u8(value);
+  } else if (value >= 0 && value <= 0xffff) {
+    writer.u8(0xcd);
+    writer.u16(value);
+  } else if (value >= 0 && value <= 0xffffffff) {
+    writer.u8(0xce);
+    writer.u32(value);
+  } else if (value >= -0x80 && value < 0) {
+    writer.u8(0xd0);
+    writer.i8(value);
+  } else if (value >= -0x8000 && value < 0) {
+    writer.u8(0xd1);
+    writer.i16(value);
+  } else if (value >= -0x80000000 && value < 0) {
+    writer.u8(0xd2);
+    writer.i32(value);
+  } else {
+    // Larger integers are exact as doubles; the 64-bit formats are kept for BigInt
+    writer.u8(0xcb);
+    writer.f64(value);
+  }
+}
+
+/**
+ * @private
+ */
+function writeBigInt(writer: Writer, value: bigint): void {
+  if (value >= INT64_MIN && value < BigInt(0)) {
+    writer.u8(0xd3);
+    writer.i64(value);
+  } else if (value >= BigInt(0) && value <= UINT64_MAX) {
+    writer.u8(0xcf);
+    writer.u64(value);
+  } else {
+    writeExt(writer, EXT_BIGINT, Buffer.from(value.toString(), 'utf8'));
+  }
+}
+
+/**
+ * @private
+ */
+function writeString(writer: Writer, value: string): void {
+  const data = Buffer.from(value, 'utf8');
+  if (data.length < 0x20) {
+    writer.u8(0xa0 | data.length);
+  } else if (data.length <= 0xff) {
+    writer.u8(0xd9);
+    writer.u8(data.length);
+  } else if (data.length <= 0xffff) {
+    writer.u8(0xda);
+    writer.u16(data.length);
+  } else {
+    writer.u8(0xdb);
+    writer.u32(data.length);
+  }
+  writer.bytes(data);
+}
+
+/**
+ * @private
+ */
+function writeBinary(writer: Writer, value: Uint8Array): void {
+  if (value.length <= 0xff) {
+    writer.u8(0xc4);
+    writer.u8(value.length);
+  } else if (value.length <= 0xffff) {
+    writer.u8(0xc5);
+    writer.u16(value.length);
+  } else {
+    writer.u8(0xc6);
+    writer.u32(value.length);
+  }
+  writer.bytes(value);
+}
+
+/**
+ * Timestamp extension: 32-bit seconds when possible, otherwise 96-bit seconds + nanoseconds
+ * @private
+ */
+function writeDate(writer: Writer, value: Date): void {
+  const ms = value.getTime();
+  if (Number.isNaN(ms)) {
+    // Invalid dates have no timestamp; JSON stores them as null too
+    writer.u8(0xc0);
+    return;
+  }
+
+  const seconds = Math.floor(ms / 1000);
+  const nanoseconds = (ms - seconds * 1000) * 1e6;
+  if (nanoseconds === 0 && seconds >= 0 && seconds <= 0xffffffff) {
+    const payload = Buffer.allocUnsafe(4);
+    payload.writeUInt32BE(seconds);
+    writeExt(writer, EXT_TIMESTAMP, payload);
+    return;
+  }
+
+  const payload = Buffer.allocUnsafe(12);
+  payload.writeUInt32BE(nanoseconds);
+  payload.writeBigInt64BE(BigInt(seconds), 4);
+  writeExt(writer, EXT_TIMESTAMP, payload);
+}
+
+/**
+ * @private
+ */
+function writeArrayHeader(writer: Writer, length: number): void {
+  if (length < 0x10) {
+    writer.u8(0x90 | length);
+  } else if (length <= 0xffff) {
+    writer.u8(0xdc);
+    writer.u16(length);
+  } else {
+    writer.u8(0xdd);
+    writer.u32(length);
+  }
+}
+
+/**
+ * @private
+ */
+function writeMapHeader(writer: Writer, size: number): void {
+  if (size < 0x10) {
+    writer.u8(0x80 | size);
+  } else if (size <= 0xffff) {
+    writer.u8(0xde);
+    writer.u16(size);
+  } else {
+    writer.u8(0xdf);
+    writer.u32(size);
+  }
+}
+
+/**
+ * @private
+ */
+function writeExt(writer: Writer, type: number, payload: Buffer): void {
+  const fixed: Record<number, number> = { 1: 0xd4, 2: 0xd5, 4: 0xd6, 8: 0xd7, 16: 0xd8 };
+  if (fixed[payload.length] !== undefined) {
+    writer.u8(fixed[payload.length]);
+  } else if (payload.length <= 0xff) {
+    writer.u8(0xc7);
+    writer.u8(payload.length);
+  } else if (payload.length <= 0xffff) {
+    writer.u8(0xc8);
+    writer.u16(payload.length);
+  } else {
+    writer.u8(0xc9);
+    writer.u32(payload.length);
+  }
+  writer.i8(type);
+  writer.bytes(payload);
+}
+
+interface Reader {
+  data: Buffer;
+  offset: number;
+}
+
+/**
+ * Take the next `length` bytes
+ * @private
+ */
+function take(reader: Reader, length: number): Buffer {
+  if (reader.offset + length > reader.data.length) {
+    throw new Error('Unexpected end of MessagePack data');
+  }
+  const bytes = reader.data.subarray(reader.offset, reader.offset + length);
+  reader.offset += length;
+  return bytes;
+}
+
+/**
+ * Decode one value
+ * @private
+ */
+function read(reader: Reader): any {
+  const byte = take(reader, 1)[0];
+
+  if (byte < 0x80) {
+    return byte;
+  }
+  if (byte >= 0xe0) {
+    return byte - 0x100;
+  }
+  if ((byte & 0xf0) === 0x80) {
+    return readMap(reader, byte & 0x0f);
+  }
+  if ((byte & 0xf0) === 0x90) {
+    return readArray(reader, byte & 0x0f);
+  }
+  if ((byte & 0xe0) === 0xa0) {
+    return take(reader, byte & 0x1f).toString('utf8');
+  }
+
+  switch (byte) {
+    case 0xc0:
+      return null;
+    case 0xc2:
+      return false;
+    case 0xc3:
+      return true;
+    case 0xc4:
+      return Buffer.from(take(reader, take(reader, 1).readUInt8()));
+    case 0xc5:
+      return Buffer.from(take(reader, take(reader, 2).readUInt16BE()));
+    case 0xc6:
+      return Buffer.from(take(reader, take(reader, 4).readUInt32BE()));
+    case 0xc7:
+      return readExt(reader, take(reader, 1).readUInt8());
+    case 0xc8:
+      return readExt(reader, take(reader, 2).readUInt16BE());
+    case 0xc9:
+      return readExt(reader, take(reader, 4).readUInt32BE());
+    case 0xca:
+      return take(reader, 4).readFloatBE();
+    case 0xcb:
+      return take(reader, 8).readDoubleBE();
+    case 0xcc:
+      return take(reader, 1).readUInt8();
+    case 0xcd:
+      return take(reader, 2).readUInt16BE();
+    case 0xce:
+      return take(reader, 4).readUInt32BE();
+    case 0xcf:
+      return take(reader, 8).readBigUInt64BE();
+    case 0xd0:
+      return take(reader, 1).readInt8();
+    case 0xd1:
+      return take(reader, 2).readInt16BE();
+    case 0xd2:
+      return take(reader, 4).readInt32BE();
+    case 0xd3:
+      return take(reader, 8).readBigInt64BE();
+    case 0xd4:
+      return readExt(reader, 1);
+    case 0xd5:
+      return readExt(reader, 2);
+    case 0xd6:
+      return readExt(reader, 4);
+    case 0xd7:
+      return readExt(reader, 8);
+    case 0xd8:
+      return readExt(reader, 16);
+    case 0xd9:
+      return take(reader, take(reader, 1).readUInt8()).toString('utf8');
+    case 0xda:
+      return take(reader, take(reader, 2).readUInt16BE()).toString('utf8');
+    case 0xdb:
+      return take(reader, take(reader, 4).readUInt32BE()).toString('utf8');
+    case 0xdc:
+      return readArray(reader, take(reader, 2).readUInt16BE());
+    case 0xdd:
+      return readArray(reader, take(reader, 4).readUInt32BE());
+    case 0xde:
+      return readMap(reader, take(reader, 2).readUInt16BE());
+    case 0xdf:
+      return readMap(reader, take(reader, 4).readUInt32BE());
+    default:
+      throw new Error(`Unsupported MessagePack type 0x${byte.toString(16)}`);
+  }
+}
+
+/**
+ * @private
+ */
+function readArray(reader: Reader, length: number): any[] {
+  const items = new Array(length);
+  for (let i = 0; i < length; i++) {
+    items[i] = read(reader);
+  }
+  return items;
+}
+
+/**
+ * @private
+ */
+function readMap(reader: Reader, size: number): Record<string, any> {
+  const object: Record<string, any> = {};
+  for (let i = 0; i < size; i++) {
+    const key = String(read(reader));
+    const value = read(reader);
+    if (key === '__proto__') {
+      // Never let a stored "__proto__" key change the prototype
+      Object.defineProperty(object, key, { value, enumerable: true, writable: true });
+    } else {
+      object[key] = value;
+    }
+  }
+  return object;
+}
+
+/**
+ * @private
+ */
+function readExt(reader: Reader, length: number): any {
+  const type = take(reader, 1).readInt8();
+  const payload = take(reader, length);
+
+  switch (type) {
+    case EXT_TIMESTAMP:
+      return readTimestamp(payload);
+    case EXT_BIGINT:
+      return BigInt(payload.toString('utf8'));
+    case EXT_MAP: {
+      const inner = { data: payload, offset: 0 };
+      const byte = take(inner, 1)[0];
+      const size =
+        (byte & 0xf0) === 0x80
+          ? byte & 0x0f
+          : byte === 0xde
+            ? take(inner, 2).readUInt16BE()
+            : take(inner, 4).readUInt32BE();
+      const map = new Map();
+      for (let i = 0; i < size; i++) {
+        const key = read(inner);
+        map.set(key, read(inner));
+      }
+      return map;
+    }
+    case EXT_SET:
+      return new Set(decode(payload));
+    default:
+      throw new Error(`Unsupported MessagePack extension type ${type}`);
+  }
+}
+
+/**
+ * @private
+ */
+function readTimestamp(payload: Buffer): Date {
+  if (payload.length === 4) {
+    return new Date(payload.readUInt32BE() * 1000);
+  }
+  if (payload.length === 8) {
+    const high = payload.readUInt32BE();
+    const nanoseconds = high >>> 2;
+    const seconds = (high & 0x3) * 0x100000000 + payload.readUInt32BE(4);
+    return new Date(seconds * 1000 + nanoseconds / 1e6);
+  }
+  if (payload.length === 12) {
+    const nanoseconds = payload.readUInt32BE();
+    const seconds = Number(payload.readBigInt64BE(4));
+    return new Date(seconds * 1000 + nanoseconds / 1e6);
+  }
+  throw new Error(`Invalid MessagePack timestamp length ${payload.length}`);
+}
@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+import { IncomingHttpHeaders, OutgoingHttpHeaders } from 'http';
+import { AutoCacheConfig, PartitionScope } from './types';
+
+/**
+ * Key segment and tag of the partition a request is cached in (null for shared entries)
+ */
+export interface Partition {
+  key: string | null;
+  tag: string | null;
+}
+
+/**
+ * Request attributes a partition is resolved from
+ */
+export interface PartitionRequest<TReq> {
+  req: TReq;
+  headers: IncomingHttpHeaders;
+  user?: any;
+  sessionId?: string;
+}
+
+/**
+ * Identity of a request in a per-user or per-session partition
+ * Session ids are secrets sent back in `X-Cache-Key`, so only their hash is used.
+ *
+ * @param scope - 'user' or 'session'
+ * @param identity - User or session id
+ * @returns Identifier used in keys and tags
+ * @private
+ */
+function getPartitionId(scope: Exclude<PartitionScope, 'public'>, identity: string): string {
+  return scope === 'session'
+    ? crypto.createHash('sha256').update(identity).digest('hex').substring(0, 32)
+    : identity;
+}
+
+/**
+ * Cache key segment of a partition, appended to the key of each entry
+ *
+ * @param scope - 'user' or 'session'
+ * @param identity - User or session id
+ * @returns Key segment (e.g., `user:42`)
+ */
+export function getPartitionKey(
+  scope: Exclude<PartitionScope, 'public'>,
+  identity: string
+): string {
+  return `${scope}:${getPartitionId(scope, identity)}`;
+}
+
+/**
+ * Tag attached to every entry of a partition, so all of them can be invalidated at once
+ * The `scope:` prefix keeps it apart from application tags such as `user:42`.
+ *
+ * @param scope - 'user' or 'session'
+ * @param identity - User or session id
+ * @returns Tag name (e.g., `scope:user:42`)
+ */
+export function getPartitionTag(
+  scope: Exclude<PartitionScope, 'public'>,
+  identity: string
+): string {
+  return `scope:${getPartitionKey(scope, identity)}`;
+}
+
+/**
+ * Partition of a cacheable request, or null when it must not be cached: credentials
+ * in the 'public' scope, or no identity in the 'user' and 'session' scopes
+ *
+ * @param scope - Partition scope
+ * @param request - Request attributes
+ * @param options - Identity extractor and anonymous / Authorization opt-ins
+ * @returns Partition, or null
+ */
+export function resolvePartition<TReq>(
+  scope: PartitionScope,
+  request: PartitionRequest<TReq>,
+  options: Pick<AutoCacheConfig<TReq>, 'identity' | 'anonymous' | 'shareAuthorized'> = {}
+): Partition | null {
+  const { identity, anonymous, shareAuthorized } = options;
+
+  if (scope === 'public') {
+    return shareAuthorized || !hasAuthorization(request.headers) ? { key: null, tag: null } : null;
+  }
+
+  const id = toIdentity(
+    identity ? identity(request.req) : scope === 'user' ? request.user?.id : request.sessionId
+  );
+  if (id !== null) {
+    return { key: getPartitionKey(scope, id), tag: getPartitionTag(scope, id) };
+  }
+
+  // Authenticated requests without an identity must not share the anonymous entry
+  return anonymous && !hasAuthorization(request.headers) ? { key: 'anon', tag: null } : null;
+}
+
+/**
+ * Normalize a resolved identity; empty values mean the request has none
+ *
+ * @param value - Value returned by the identity extractor
+ * @returns Identity, or null
+ */
+export function toIdentity(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  return String(value);
+}
+
+/**
+ * True when a request carries an Authorization header
+ *
+ * @param headers - Request headers
+ */
+export function hasAuthorization(headers: IncomingHttpHeaders): boolean {
+  return Boolean(headers.authorization);
+}
+
+/**
+ * True when a response sets cookies; such responses are never stored
+ *
+ * @param headers - Response headers
+ */
+export function setsCookie(headers: OutgoingHttpHeaders): boolean {
+  return Object.keys(headers).some(
+    (name) => name.toLowerCase() === 'set-cookie' && headers[name] !== undefined
+  );
+}
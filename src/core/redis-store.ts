@@ -0,0 +1,224 @@
+import { Redis, Cluster } from 'ioredis';
+import { CacheStore, StoredValue, TenantQuota, TenantUsage } from './types';
+import { defineScript, runScript } from './script';
+import { deleteKeys, pipelinePerKey, scanKeys } from './cluster';
+import { popTagMembers, sweepTags, writeTagged } from './tags';
+import { getQuotaUsage, releaseQuota, releaseQuotaExcept, reserveQuota } from './tenant';
+
+/**
+ * Deletes a key only if it still holds the expected value
+ * KEYS: key; ARGV: value
+ */
+const DELETE_IF_EQUALS_SCRIPT = defineScript(`
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+else
+  return 0
+end
+`);
+
+/**
+ * Store per client, so every CacheService sharing a client shares its L1 tier and registries
+ */
+const storeByClient = new WeakMap<Redis | Cluster, RedisStore>();
+
+/**
+ * Cache store backed by a standalone Redis or Redis Cluster client
+ *
+ * Multi-key writes are pipelined per hash slot, and tagged writes, tag pops, quotas and
+ * lock releases run as Lua scripts.
+ */
+export class RedisStore implements CacheStore {
+  /** Underlying ioredis client */
+  readonly redis: Redis | Cluster;
+
+  /**
+   * Create a new RedisStore
+   *
+   * @param redisClient - Redis or Cluster instance
+   */
+  constructor(redisClient: Redis | Cluster) {
+    this.redis = redisClient;
+  }
+
+  async getMany(keys: string[], withTtl: boolean = false): Promise<Array<StoredValue | null>> {
+    if (keys.length === 1 && !withTtl) {
+      const data = await this.redis.getBuffer(keys[0]);
+      return [data ? { data, pttl: -1 } : null];
+    }
+
+    const results = await pipelinePerKey(this.redis, keys, (pipeline, key) => {
+      pipeline.getBuffer(key);
+      if (withTtl) {
+        pipeline.pttl(key);
+      }
+    });
+
+    return results.map(([[error, data], ttlReply]) => {
+      if (error || !data) {
+        return null;
+      }
+      return { data: data as Buffer, pttl: withTtl ? (ttlReply?.[1] as number) : -1 };
+    });
+  }
+
+  async setMany(
+    entries: Array<[string, string | Buffer]>,
+    ttl: number,
+    tagKeys: string[]
+  ): Promise<void> {
+    await writeTagged(this.redis, entries, ttl, tagKeys);
+  }
+
+  async del(keys: string[]): Promise<number> {
+    return keys.length === 1 ? this.redis.del(keys[0]) : deleteKeys(this.redis, keys);
+  }
+
+  async scan(pattern: string, count?: number): Promise<string[]> {
+    return scanKeys(this.redis, pattern, count);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.redis.exists(key)) === 1;
+  }
+
+  async ttl(key: string): Promise<number> {
+    return this.redis.ttl(key);
+  }
+
+  async incr(key: string): Promise<number> {
+    return this.redis.incr(key);
+  }
+
+  async getCounter(key: string): Promise<number> {
+    return Number(await this.redis.get(key)) || 0;
+  }
+
+  async popTag(tagKey: string): Promise<string[]> {
+    return popTagMembers(this.redis, tagKey);
+  }
+
+  async sweepTags(
+    pattern: string,
+    count?: number,
+    skip?: (tagKey: string) => boolean
+  ): Promise<number> {
+    return sweepTags(this.redis, pattern, count, skip);
+  }
+
+  async addMembers(key: string, members: string[]): Promise<void> {
+    if (members.length > 0) {
+      await this.redis.sadd(key, ...members);
+    }
+  }
+
+  async removeMembers(key: string, members: string[]): Promise<void> {
+    if (members.length > 0) {
+      await this.redis.srem(key, ...members);
+    }
+  }
+
+  async getMembers(key: string): Promise<string[]> {
+    return this.redis.smembers(key);
+  }
+
+  async setIfAbsent(key: string, value: string, ttlMs: number): Promise<boolean> {
+    return (await this.redis.set(key, value, 'PX', ttlMs, 'NX')) === 'OK';
+  }
+
+  async deleteIfEquals(key: string, value: string): Promise<boolean> {
+    return (await runScript(this.redis, DELETE_IF_EQUALS_SCRIPT, [key], [value])) === 1;
+  }
+
+  async reserveQuota(
+    tenantPrefix: string,
+    key: string,
+    ttl: number,
+    size: number,
+    quota: TenantQuota
+  ): Promise<boolean> {
+    return reserveQuota(this.redis, tenantPrefix, key, ttl, size, quota);
+  }
+
+  async releaseQuota(tenantPrefix: string, keys: string[]): Promise<void> {
+    await releaseQuota(this.redis, tenantPrefix, keys);
+  }
+
+  async releaseQuotaExcept(tenantPrefix: string, keyPrefix: string): Promise<void> {
+    await releaseQuotaExcept(this.redis, tenantPrefix, keyPrefix);
+  }
+
+  async getQuotaUsage(tenantPrefix: string): Promise<TenantUsage> {
+    return getQuotaUsage(this.redis, tenantPrefix);
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    await this.redis.publish(channel, message);
+  }
+
+  /**
+   * Subscribe on a dedicated connection (created with `duplicate()`),
+   * since a subscribed connection cannot run other commands
+   */
+  async subscribe(
+    channel: string,
+    listener: (message: string) => void
+  ): Promise<() => Promise<void>> {
+    const subscriber = this.redis.duplicate();
+    const close = async () => {
+      try {
+        await subscriber.quit();
+      } catch (error) {
+        subscriber.disconnect();
+      }
+    };
+
+    subscriber.on('message', (received: string, message: string) => {
+      if (received === channel) {
+        listener(message);
+      }
+    });
+
+    try {
+      await subscriber.subscribe(channel);
+    } catch (error) {
+      await close();
+      throw error;
+    }
+    return close;
+  }
+
+  async ping(): Promise<void> {
+    await this.redis.ping();
+  }
+}
+
+/**
+ * Check whether a client is a CacheStore rather than an ioredis client
+ *
+ * @param client - Redis, Cluster or CacheStore instance
+ * @returns True for CacheStore implementations
+ */
+export function isCacheStore(client: Redis | Cluster | CacheStore): client is CacheStore {
+  return typeof (client as CacheStore).getMany === 'function';
+}
+
+/**
+ * Resolve the store for a client: stores are used as-is, and each ioredis client
+ * is wrapped in one shared RedisStore
+ *
+ * @param client - Redis, Cluster or CacheStore instance
+ * @returns Cache store
+ */
+export function toCacheStore(client: Redis | Cluster | CacheStore): CacheStore {
+  if (isCacheStore(client)) {
+    return client;
+  }
+
+  let store = storeByClient.get(client);
+  if (!store) {
+    store = new RedisStore(client);
+    storeByClient.set(client, store);
+  }
+  return store;
+}
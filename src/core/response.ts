@@ -0,0 +1,249 @@
+import { OutgoingHttpHeaders, ServerResponse } from 'http';
+import { CacheEntry, CachedResponse } from './types';
+import { createETag } from './http-cache';
+
+/**
+ * Response headers stored with a cached response by default
+ */
+export const DEFAULT_CACHED_HEADERS = [
+  'content-type',
+  'content-language',
+  'content-disposition',
+  'content-location',
+  'link',
+];
+
+/**
+ * Default upper bound on a cached response body in bytes (1 MiB)
+ */
+export const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+
+/**
+ * Options controlling which responses are captured
+ */
+export interface CaptureOptions {
+  /** Header names to store with the response (case-insensitive) */
+  headers?: string[];
+
+  /** Responses with larger bodies are not captured, in bytes */
+  maxBodySize?: number;
+
+  /**
+   * Build the cached form of a complete 2xx response, or return null to skip it
+   * (default: createCachedResponse with `headers`)
+   */
+  build?: (status: number, headers: OutgoingHttpHeaders, body: Buffer) => CachedResponse | null;
+}
+
+/**
+ * Record everything written through `res.write` / `res.end` (covers `res.json`, `res.send`,
+ * `res.end` and piped streams) and report the complete response once it ends
+ *
+ * `onCapture` is only called for 2xx responses whose body fits `maxBodySize` (and that `build`
+ * does not skip).
+ * The status is checked when `res.end` is called, before any wrapper installed earlier
+ * (e.g., a stale-if-error replacement) runs.
+ *
+ * @param res - Node/Express response
+ * @param options - Header whitelist and body size limit
+ * @param onCapture - Receives the captured response
+ */
+export function captureResponse(
+  res: ServerResponse,
+  options: CaptureOptions,
+  onCapture: (response: CachedResponse) => void
+): void {
+  const {
+    headers = DEFAULT_CACHED_HEADERS,
+    maxBodySize = DEFAULT_MAX_BODY_SIZE,
+    build = (status, all, body) => createCachedResponse(status, all, body, headers),
+  } = options;
+  const originalWrite = res.write;
+  const originalEnd = res.end;
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let overflow = false;
+  let ended = false;
+
+  const collect = (chunk: any, encoding: any) => {
+    if (overflow || chunk === undefined || chunk === null || typeof chunk === 'function') {
+      return;
+    }
+
+    const buffer =
+      typeof chunk === 'string'
+        ? Buffer.from(chunk, typeof encoding === 'string' ? (encoding as BufferEncoding) : 'utf8')
+        : Buffer.from(chunk);
+
+    size += buffer.length;
+    if (size > maxBodySize) {
+      overflow = true;
+      chunks.length = 0;
+      return;
+    }
+    chunks.push(buffer);
+  };
+
+  (res as any).write = function (chunk: any, encoding?: any, ...rest: any[]) {
+    collect(chunk, encoding);
+    return (originalWrite as any).call(this, chunk, encoding, ...rest);
+  };
+
+  (res as any).end = function (chunk?: any, encoding?: any, ...rest: any[]) {
+    if (!ended) {
+      ended = true;
+      collect(chunk, encoding);
+
+      const response =
+        !overflow && res.statusCode >= 200 && res.statusCode < 300
+          ? build(res.statusCode, res.getHeaders(), Buffer.concat(chunks))
+          : null;
+      if (response) {
+        onCapture(response);
+      }
+    }
+    return (originalEnd as any).call(this, chunk, encoding, ...rest);
+  };
+}
+
+/**
+ * Build a cached response from its parts
+ *
+ * Bodies that are valid UTF-8 are stored as text; anything else is stored as base64.
+ * A strong `ETag` or valid `Last-Modified` set by the controller is kept; otherwise
+ * they are derived from the body and the capture time.
+ *
+ * @param status - HTTP status code
+ * @param headers - All response headers
+ * @param body - Raw response body
+ * @param whitelist - Header names to keep (default: DEFAULT_CACHED_HEADERS)
+ * @param now - Capture time in milliseconds
+ * @returns Cached response
+ */
+export function createCachedResponse(
+  status: number,
+  headers: OutgoingHttpHeaders,
+  body: Buffer,
+  whitelist: string[] = DEFAULT_CACHED_HEADERS,
+  now: number = Date.now()
+): CachedResponse {
+  const allowed = new Set(whitelist.map((name) => name.toLowerCase()));
+  const stored: Record<string, string | string[]> = {};
+
+  for (const name of Object.keys(headers)) {
+    const value = headers[name];
+    if (value !== undefined && allowed.has(name.toLowerCase())) {
+      stored[name.toLowerCase()] = Array.isArray(value) ? value.map(String) : String(value);
+    }
+  }
+
+  // Express sets a weak ETag by default; only a strong one set by the controller is kept
+  const etag = headers.etag !== undefined ? String(headers.etag) : '';
+  const lastModified =
+    headers['last-modified'] !== undefined ? Date.parse(String(headers['last-modified'])) : NaN;
+  const validators = {
+    etag: etag && !etag.startsWith('W/') ? etag : createETag(body),
+    lastModified: Number.isNaN(lastModified) ? now : lastModified,
+  };
+
+  const text = body.toString('utf8');
+  if (Buffer.from(text, 'utf8').equals(body)) {
+    return { status, headers: stored, body: text, encoding: 'utf8', ...validators };
+  }
+  return {
+    status,
+    headers: stored,
+    body: body.toString('base64'),
+    encoding: 'base64',
+    ...validators,
+  };
+}
+
+/**
+ * Response held by an auto-cache entry
+ * Entries stored before full response caching hold a JSON payload, replayed as `res.json` would;
+ * validators missing from older entries are derived from the body and storage time
+ *
+ * @param entry - Cache entry
+ * @returns Cached response
+ */
+export function toCachedResponse(entry: CacheEntry): CachedResponse {
+  const response: CachedResponse =
+    entry.kind === 'response'
+      ? entry.data
+      : {
+          status: 200,
+          headers: { 'content-type': 'application/json; charset=utf-8' },
+          body: JSON.stringify(entry.data),
+          encoding: 'utf8',
+        };
+
+  if (response.etag) {
+    return response;
+  }
+
+  return {
+    ...response,
+    etag: createETag(Buffer.from(response.body, response.encoding)),
+    lastModified: response.lastModified ?? (entry.storedAt || undefined),
+  };
+}
+
+/**
+ * Write a cached response: status, stored headers and the raw body
+ *
+ * @param res - Node/Express response
+ * @param response - Cached response
+ * @param end - Function ending the response (default: res.end)
+ */
+export function replayResponse(
+  res: ServerResponse,
+  response: CachedResponse,
+  end: (body: Buffer) => void = (body) => res.end(body)
+): void {
+  res.statusCode = response.status;
+  for (const name of Object.keys(response.headers)) {
+    res.setHeader(name, response.headers[name]);
+  }
+  end(Buffer.from(response.body, response.encoding));
+}
+
+/**
+ * Detach a response that has already been sent so the route can run again without writing
+ * to the socket; headers go to a private map so the new response can still be captured
+ *
+ * @param res - Node/Express response whose reply is complete
+ * @param onEnd - Called when the route ends the detached response
+ */
+export function detachResponse(res: ServerResponse, onEnd: () => void): void {
+  const detached = res as any;
+  const headers: Record<string, any> = {};
+
+  Object.defineProperty(res, 'headersSent', { configurable: true, get: () => false });
+  detached.setHeader = (name: string, value: any) => {
+    headers[name.toLowerCase()] = value;
+    return res;
+  };
+  detached.getHeader = (name: string) => headers[name.toLowerCase()];
+  detached.getHeaders = () => ({ ...headers });
+  detached.getHeaderNames = () => Object.keys(headers);
+  detached.hasHeader = (name: string) => name.toLowerCase() in headers;
+  detached.removeHeader = (name: string) => {
+    delete headers[name.toLowerCase()];
+  };
+  detached.writeHead = (status: number, ...args: any[]) => {
+    res.statusCode = status;
+    const fields = args.find((arg) => arg !== null && typeof arg === 'object');
+    if (fields && !Array.isArray(fields)) {
+      for (const name of Object.keys(fields)) {
+        detached.setHeader(name, fields[name]);
+      }
+    }
+    return res;
+  };
+  detached.write = () => true;
+  detached.end = () => {
+    onEnd();
+    return res;
+  };
+}
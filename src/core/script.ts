@@ -0,0 +1,46 @@
+import crypto from 'crypto';
+import { Redis, Cluster } from 'ioredis';
+
+/**
+ * Lua script with its precomputed SHA1 digest
+ */
+export interface LuaScript {
+  lua: string;
+  sha: string;
+}
+
+/**
+ * Prepare a Lua script for `runScript`
+ *
+ * @param lua - Script source
+ * @returns Script and its digest
+ */
+export function defineScript(lua: string): LuaScript {
+  return { lua, sha: crypto.createHash('sha1').update(lua).digest('hex') };
+}
+
+/**
+ * Run a Lua script with EVALSHA, loading it with EVAL when the server does not know it yet
+ * (first call, after a restart or SCRIPT FLUSH, or on another Cluster node)
+ *
+ * @param redis - Redis or Cluster instance
+ * @param script - Script returned by defineScript
+ * @param keys - Keys the script touches
+ * @param args - Script arguments
+ * @returns Script result
+ */
+export async function runScript(
+  redis: Redis | Cluster,
+  script: LuaScript,
+  keys: string[],
+  args: Array<string | number | Buffer>
+): Promise<unknown> {
+  try {
+    return await redis.evalsha(script.sha, keys.length, ...keys, ...args);
+  } catch (error) {
+    if (!(error instanceof Error) || !error.message.startsWith('NOSCRIPT')) {
+      throw error;
+    }
+    return redis.eval(script.lua, keys.length, ...keys, ...args);
+  }
+}
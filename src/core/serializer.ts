@@ -0,0 +1,169 @@
+import { BuiltinSerializerName, Serializer } from './types';
+import * as msgpack from './msgpack';
+
+/**
+ * Plain JSON serializer (id 0)
+ * Entries are stored as JSON text, readable with redis-cli and by earlier versions
+ */
+export const jsonSerializer: Serializer = {
+  id: 0,
+  name: 'json',
+  serialize: (value) => Buffer.from(JSON.stringify(value), 'utf-8'),
+  deserialize: (data) => JSON.parse(data.toString('utf-8')),
+};
+
+/**
+ * JSON serializer that round-trips Date, Map, Set, BigInt and Buffer values (id 1)
+ *
+ * Those values are written as `{ "$t": <type>, "v": <value> }` objects; plain objects that
+ * have their own `$t` property are wrapped so they are never mistaken for one.
+ */
+export const richJsonSerializer: Serializer = {
+  id: 1,
+  name: 'rich-json',
+  serialize: (value) => Buffer.from(JSON.stringify(toRichJson(value)), 'utf-8'),
+  deserialize: (data) => fromRichJson(JSON.parse(data.toString('utf-8'))),
+};
+
+/**
+ * Compact binary serializer using MessagePack (id 2)
+ * Round-trips the same types as rich-json; Buffers are stored as raw bytes
+ */
+export const msgpackSerializer: Serializer = {
+  id: 2,
+  name: 'msgpack',
+  serialize: (value) => msgpack.encode(value),
+  deserialize: (data) => msgpack.decode(data),
+};
+
+const BUILTIN_SERIALIZERS: Record<BuiltinSerializerName, Serializer> = {
+  json: jsonSerializer,
+  'rich-json': richJsonSerializer,
+  msgpack: msgpackSerializer,
+};
+
+/**
+ * Look up a built-in serializer by name
+ *
+ * @param name - Built-in serializer name
+ * @returns Serializer implementation
+ */
+export function resolveSerializer(name: BuiltinSerializerName): Serializer {
+  const serializer = BUILTIN_SERIALIZERS[name];
+  if (!serializer) {
+    throw new Error(`Unknown serializer "${name}"`);
+  }
+  return serializer;
+}
+
+/**
+ * All built-in serializers
+ */
+export function builtinSerializers(): Serializer[] {
+  return Object.values(BUILTIN_SERIALIZERS);
+}
+
+/**
+ * Tag key marking values encoded by rich-json
+ */
+const TAG = '$t';
+
+/**
+ * Convert a value into a JSON-safe tree with tagged special types
+ * @private
+ */
+function toRichJson(value: any): any {
+  if (typeof value === 'bigint') {
+    return { [TAG]: 'BigInt', v: value.toString() };
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (value instanceof Date) {
+    // Invalid dates are kept as null, like JSON
+    return { [TAG]: 'Date', v: Number.isNaN(value.getTime()) ? null : value.toISOString() };
+  }
+  if (Buffer.isBuffer(value)) {
+    return { [TAG]: 'Buffer', v: value.toString('base64') };
+  }
+  if (value instanceof Map) {
+    return {
+      [TAG]: 'Map',
+      v: Array.from(value, ([key, item]) => [toRichJson(key), toRichJson(item)]),
+    };
+  }
+  if (value instanceof Set) {
+    return { [TAG]: 'Set', v: Array.from(value, toRichJson) };
+  }
+  if (Array.isArray(value)) {
+    return value.map(toRichJson);
+  }
+  if (typeof value.toJSON === 'function') {
+    return toRichJson(value.toJSON());
+  }
+
+  const object: Record<string, any> = {};
+  for (const key of Object.keys(value)) {
+    setProperty(object, key, toRichJson(value[key]));
+  }
+  return Object.prototype.hasOwnProperty.call(value, TAG) ? { [TAG]: 'Object', v: object } : object;
+}
+
+/**
+ * Revive tagged special types from a parsed JSON tree
+ * @private
+ */
+function fromRichJson(value: any): any {
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(fromRichJson);
+  }
+
+  if (typeof value[TAG] === 'string' && 'v' in value) {
+    const data = value.v;
+    switch (value[TAG]) {
+      case 'BigInt':
+        return BigInt(data);
+      case 'Date':
+        return new Date(data === null ? NaN : data);
+      case 'Buffer':
+        return Buffer.from(data, 'base64');
+      case 'Map':
+        return new Map(
+          data.map(([key, item]: [any, any]) => [fromRichJson(key), fromRichJson(item)])
+        );
+      case 'Set':
+        return new Set(data.map(fromRichJson));
+      case 'Object':
+        return reviveObject(data);
+    }
+  }
+
+  return reviveObject(value);
+}
+
+/**
+ * Revive the properties of a plain object
+ * @private
+ */
+function reviveObject(value: Record<string, any>): Record<string, any> {
+  const object: Record<string, any> = {};
+  for (const key of Object.keys(value)) {
+    setProperty(object, key, fromRichJson(value[key]));
+  }
+  return object;
+}
+
+/**
+ * Set an own property, never letting a "__proto__" key change the prototype
+ * @private
+ */
+function setProperty(object: Record<string, any>, key: string, value: any): void {
+  if (key === '__proto__') {
+    Object.defineProperty(object, key, { value, enumerable: true, writable: true });
+  } else {
+    object[key] = value;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Reads the direct dependents of each tag, in the order of `tags`
+ */
+export type DependentsReader = (tags: string[]) => Promise<string[][]>;
+
+/**
+ * Thrown when registering a tag dependency would create a cycle
+ */
+export class TagCycleError extends Error {
+  constructor(public readonly cycle: string[]) {
+    super(`Tag dependency cycle: ${cycle.join(' -> ')}`);
+    this.name = 'TagCycleError';
+  }
+}
+
+/**
+ * Add every tag that transitively depends on the given tags
+ * Each tag is visited once, so cycles registered concurrently cannot loop forever.
+ *
+ * @param tags - Tags to expand
+ * @param readDependents - Reads direct dependents, called once per level of the graph
+ * @returns The given tags followed by their dependents, breadth-first and without duplicates
+ */
+export async function expandTags(
+  tags: string[],
+  readDependents: DependentsReader
+): Promise<string[]> {
+  const seen = new Set(tags);
+  let level = Array.from(seen);
+
+  while (level.length > 0) {
+    const next: string[] = [];
+    for (const dependents of await readDependents(level)) {
+      for (const dependent of dependents) {
+        if (!seen.has(dependent)) {
+          seen.add(dependent);
+          next.push(dependent);
+        }
+      }
+    }
+    level = next;
+  }
+
+  return Array.from(seen);
+}
+
+/**
+ * Check that making `dependents` depend on `tag` keeps the graph acyclic
+ *
+ * @param tag - Tag being invalidated
+ * @param dependents - Tags to invalidate with it
+ * @param readDependents - Reads direct dependents
+ * @throws TagCycleError naming the cycle, if `tag` is reachable from a dependent
+ */
+export async function assertAcyclic(
+  tag: string,
+  dependents: string[],
+  readDependents: DependentsReader
+): Promise<void> {
+  // Breadth-first from the new dependents, remembering how each tag was reached
+  const parents = new Map<string, string | null>(dependents.map((dependent) => [dependent, null]));
+  let level = Array.from(parents.keys());
+
+  while (level.length > 0 && !parents.has(tag)) {
+    const next: string[] = [];
+    const results = await readDependents(level);
+    level.forEach((parent, i) => {
+      for (const dependent of results[i]) {
+        if (!parents.has(dependent)) {
+          parents.set(dependent, parent);
+          next.push(dependent);
+        }
+      }
+    });
+    level = next;
+  }
+
+  if (!parents.has(tag)) {
+    return;
+  }
+
+  const path: string[] = [];
+  for (let current: string | null | undefined = tag; current; current = parents.get(current)) {
+    path.unshift(current);
+  }
+  throw new TagCycleError([tag, ...path]);
+}
@@ -0,0 +1,188 @@
+import { Redis, Cluster } from 'ioredis';
+import { defineScript, runScript } from './script';
+import { inSameSlot, pipelinePerKey, scanKeys } from './cluster';
+
+/**
+ * Adds a member to a tag set and extends the set's TTL to the member's,
+ * never shortening it, so the set lives as long as its longest-lived member
+ */
+const ADD_MEMBER = `
+local function addMember(tagKey, member, ttl)
+  redis.call("sadd", tagKey, member)
+  if redis.call("pttl", tagKey) < ttl * 1000 then
+    redis.call("pexpire", tagKey, ttl * 1000)
+  end
+end
+`;
+
+/**
+ * Writes entries and registers them in their tag sets in one step
+ * KEYS: entry keys..., tag keys...; ARGV: ttl seconds, data of each entry...
+ */
+const SET_TAGGED_SCRIPT = defineScript(`${ADD_MEMBER}
+local ttl = tonumber(ARGV[1])
+local count = #ARGV - 1
+for i = 1, count do
+  redis.call("setex", KEYS[i], ttl, ARGV[i + 1])
+  for j = count + 1, #KEYS do
+    addMember(KEYS[j], KEYS[i], ttl)
+  end
+end
+return 1
+`);
+
+/**
+ * Registers entries in one tag set
+ * KEYS: tag key; ARGV: ttl seconds, entry keys...
+ */
+const ADD_TAG_SCRIPT = defineScript(`${ADD_MEMBER}
+local ttl = tonumber(ARGV[1])
+for i = 2, #ARGV do
+  addMember(KEYS[1], ARGV[i], ttl)
+end
+return 1
+`);
+
+/**
+ * Reads and deletes a tag set in one step, so members added concurrently
+ * either end up in the returned list or in a new set
+ * KEYS: tag key
+ */
+const POP_TAG_SCRIPT = defineScript(`
+local members = redis.call("smembers", KEYS[1])
+redis.call("del", KEYS[1])
+return members
+`);
+
+/**
+ * Removes members whose entry no longer exists; Redis deletes the set once it is empty
+ * KEYS: tag key, candidate entry keys...
+ */
+const PRUNE_TAG_SCRIPT = defineScript(`
+local removed = 0
+for i = 2, #KEYS do
+  if redis.call("exists", KEYS[i]) == 0 then
+    removed = removed + redis.call("srem", KEYS[1], KEYS[i])
+  end
+end
+return removed
+`);
+
+/**
+ * Write entries and add them to their tag sets
+ *
+ * When all keys share a slot (standalone Redis or hash-tagged namespaces) the entries and
+ * their tags are written by one script. Otherwise the entries are written first, pipelined
+ * per slot, and each tag set is updated atomically on its own node.
+ *
+ * @param redis - Redis or Cluster instance
+ * @param entries - Fully qualified entry keys and their stored values
+ * @param ttl - Time to live in seconds
+ * @param tagKeys - Fully qualified tag set keys
+ */
+export async function writeTagged(
+  redis: Redis | Cluster,
+  entries: Array<[string, string | Buffer]>,
+  ttl: number,
+  tagKeys: string[]
+): Promise<void> {
+  const keys = entries.map(([key]) => key);
+
+  if (tagKeys.length > 0 && inSameSlot(redis, [...keys, ...tagKeys])) {
+    const data = entries.map(([, value]) => value);
+    await runScript(redis, SET_TAGGED_SCRIPT, [...keys, ...tagKeys], [ttl, ...data]);
+    return;
+  }
+
+  const results = await pipelinePerKey(redis, keys, (pipeline, key, index) =>
+    pipeline.setex(key, ttl, entries[index][1])
+  );
+  for (const [[error]] of results) {
+    if (error) {
+      throw error;
+    }
+  }
+
+  await Promise.all(
+    tagKeys.map((tagKey) => runScript(redis, ADD_TAG_SCRIPT, [tagKey], [ttl, ...keys]))
+  );
+}
+
+/**
+ * Atomically take all members of a tag set, deleting the set
+ *
+ * @param redis - Redis or Cluster instance
+ * @param tagKey - Fully qualified tag set key
+ * @returns Entry keys that were tagged
+ */
+export async function popTagMembers(redis: Redis | Cluster, tagKey: string): Promise<string[]> {
+  return (await runScript(redis, POP_TAG_SCRIPT, [tagKey], [])) as string[];
+}
+
+/**
+ * Remove members of a tag set whose entries have expired or been deleted
+ *
+ * When members live in other slots than the set, existence is checked before removal,
+ * so an entry re-created in between loses its tag until it is written again.
+ *
+ * @param redis - Redis or Cluster instance
+ * @param tagKey - Fully qualified tag set key
+ * @param count - SSCAN COUNT hint
+ * @returns Number of members removed
+ */
+export async function pruneTag(
+  redis: Redis | Cluster,
+  tagKey: string,
+  count: number = 100
+): Promise<number> {
+  let cursor = '0';
+  let removed = 0;
+
+  do {
+    const [next, members] = await redis.sscan(tagKey, cursor, 'COUNT', count);
+    cursor = next;
+    if (members.length === 0) {
+      continue;
+    }
+
+    if (inSameSlot(redis, [tagKey, ...members])) {
+      removed += Number(await runScript(redis, PRUNE_TAG_SCRIPT, [tagKey, ...members], []));
+      continue;
+    }
+
+    const exists = await Promise.all(members.map((member) => redis.exists(member)));
+    const dead = members.filter((_, i) => exists[i] === 0);
+    if (dead.length > 0) {
+      removed += await redis.srem(tagKey, ...dead);
+    }
+  } while (cursor !== '0');
+
+  return removed;
+}
+
+/**
+ * Prune every tag set matching a pattern
+ * Keys matching the pattern that are not sets, or that `skip` rejects, are skipped.
+ *
+ * @param redis - Redis or Cluster instance
+ * @param pattern - Glob pattern matching tag set keys
+ * @param count - SCAN / SSCAN COUNT hint
+ * @param skip - Returns true for matching keys that are not tag sets
+ * @returns Number of members removed
+ */
+export async function sweepTags(
+  redis: Redis | Cluster,
+  pattern: string,
+  count: number = 100,
+  skip?: (tagKey: string) => boolean
+): Promise<number> {
+  let removed = 0;
+
+  for (const tagKey of await scanKeys(redis, pattern, count)) {
+    if (!skip?.(tagKey) && (await redis.type(tagKey)) === 'set') {
+      removed += await pruneTag(redis, tagKey, count);
+    }
+  }
+
+  return removed;
+}
@@ -0,0 +1,206 @@
+import { Redis, Cluster } from 'ioredis';
+import { TenantQuota, TenantUsage } from './types';
+import { defineScript, runScript } from './script';
+
+/**
+ * Drops expired members from the usage set and subtracts their sizes
+ * KEYS: usage zset (member = key, score = expiry ms), sizes hash, bytes counter; ARGV[1] = now
+ */
+const PRUNE = `
+local expired = redis.call("zrangebyscore", KEYS[1], "-inf", ARGV[1])
+local freed = 0
+for _, member in ipairs(expired) do
+  freed = freed + tonumber(redis.call("hget", KEYS[2], member) or "0")
+  redis.call("hdel", KEYS[2], member)
+end
+if #expired > 0 then
+  redis.call("zremrangebyscore", KEYS[1], "-inf", ARGV[1])
+  redis.call("decrby", KEYS[3], freed)
+end
+`;
+
+/**
+ * Accounts for a write if it fits the quota
+ * ARGV: now, key, expiry ms, size, maxKeys (0 = unlimited), maxBytes (0 = unlimited)
+ * Returns 1 if the write was accounted for, 0 if it would exceed the quota
+ */
+const RESERVE_SCRIPT = defineScript(`${PRUNE}
+local previous = redis.call("hget", KEYS[2], ARGV[2])
+local count = redis.call("zcard", KEYS[1])
+local bytes = tonumber(redis.call("get", KEYS[3]) or "0")
+local size = tonumber(ARGV[4])
+if previous then
+  bytes = bytes - tonumber(previous) + size
+else
+  count = count + 1
+  bytes = bytes + size
+end
+local maxKeys = tonumber(ARGV[5])
+local maxBytes = tonumber(ARGV[6])
+if (maxKeys > 0 and count > maxKeys) or (maxBytes > 0 and bytes > maxBytes) then
+  return 0
+end
+redis.call("zadd", KEYS[1], ARGV[3], ARGV[2])
+redis.call("hset", KEYS[2], ARGV[2], size)
+redis.call("set", KEYS[3], bytes)
+local last = redis.call("zrange", KEYS[1], -1, -1, "withscores")[2]
+for i = 1, 3 do
+  redis.call("pexpireat", KEYS[i], last)
+end
+return 1
+`);
+
+/**
+ * Stops accounting for deleted keys; ARGV = keys
+ */
+const RELEASE_SCRIPT = defineScript(`
+local freed = 0
+for i = 1, #ARGV do
+  local size = redis.call("hget", KEYS[2], ARGV[i])
+  if size then
+    freed = freed + tonumber(size)
+    redis.call("hdel", KEYS[2], ARGV[i])
+    redis.call("zrem", KEYS[1], ARGV[i])
+  end
+end
+if freed > 0 then
+  redis.call("decrby", KEYS[3], freed)
+end
+return freed
+`);
+
+/**
+ * Stops accounting for every key outside a prefix; ARGV[1] = prefix
+ */
+const RELEASE_EXCEPT_SCRIPT = defineScript(`
+local freed = 0
+for _, member in ipairs(redis.call("zrange", KEYS[1], 0, -1)) do
+  if string.sub(member, 1, #ARGV[1]) ~= ARGV[1] then
+    freed = freed + tonumber(redis.call("hget", KEYS[2], member) or "0")
+    redis.call("hdel", KEYS[2], member)
+    redis.call("zrem", KEYS[1], member)
+  end
+end
+if freed > 0 then
+  redis.call("decrby", KEYS[3], freed)
+end
+return freed
+`);
+
+/**
+ * Returns { live key count, live bytes }; ARGV[1] = now
+ */
+const USAGE_SCRIPT = defineScript(`${PRUNE}
+return { redis.call("zcard", KEYS[1]), tonumber(redis.call("get", KEYS[3]) or "0") }
+`);
+
+/**
+ * Namespace holding one tenant's keys and tag sets
+ * The tenant id is percent-encoded so it can never contain ':' or glob characters,
+ * which keeps one tenant's prefix from matching another's.
+ *
+ * @param namespace - Base namespace (e.g., 'app')
+ * @param tenantId - Tenant identifier
+ * @returns Tenant namespace (e.g., 'app:tenant:acme')
+ */
+export function getTenantNamespace(namespace: string, tenantId: string): string {
+  if (!tenantId) {
+    throw new Error('Tenant id must be a non-empty string');
+  }
+  return `${namespace}:tenant:${encodeURIComponent(tenantId).replace(/\*/g, '%2A')}`;
+}
+
+/**
+ * Bookkeeping keys tracking a tenant's cache usage
+ * The quota scripts touch all three keys, so they always share a hash slot: a hash-tagged
+ * namespace (`{app:tenant:acme}`) already pins them, otherwise they get their own tag
+ * (`app:tenant:acme:{app:tenant:acme:quota}:keys`) and stay under the tenant's prefix.
+ * @private
+ */
+function getQuotaKeys(tenantNamespace: string): string[] {
+  const prefix = tenantNamespace.startsWith('{')
+    ? `${tenantNamespace}:quota`
+    : `${tenantNamespace}:{${tenantNamespace}:quota}`;
+  return ['keys', 'sizes', 'bytes'].map((name) => `${prefix}:${name}`);
+}
+
+/**
+ * Account for a write against a tenant's quota
+ *
+ * @param redis - Redis or Cluster instance
+ * @param tenantNamespace - Namespace returned by getTenantNamespace
+ * @param fullKey - Fully qualified cache key being written
+ * @param ttl - Time to live of the write in seconds
+ * @param size - Stored size in bytes
+ * @param quota - Limits to enforce
+ * @returns True if the write fits the quota and has been accounted for
+ */
+export async function reserveQuota(
+  redis: Redis | Cluster,
+  tenantNamespace: string,
+  fullKey: string,
+  ttl: number,
+  size: number,
+  quota: TenantQuota
+): Promise<boolean> {
+  const now = Date.now();
+  const result = await runScript(redis, RESERVE_SCRIPT, getQuotaKeys(tenantNamespace), [
+    now,
+    fullKey,
+    now + ttl * 1000,
+    size,
+    quota.maxKeys || 0,
+    quota.maxBytes || 0,
+  ]);
+  return result === 1;
+}
+
+/**
+ * Stop accounting for deleted keys
+ *
+ * @param redis - Redis or Cluster instance
+ * @param tenantNamespace - Namespace returned by getTenantNamespace
+ * @param fullKeys - Fully qualified cache keys that were deleted
+ */
+export async function releaseQuota(
+  redis: Redis | Cluster,
+  tenantNamespace: string,
+  fullKeys: string[]
+): Promise<void> {
+  if (fullKeys.length > 0) {
+    await runScript(redis, RELEASE_SCRIPT, getQuotaKeys(tenantNamespace), fullKeys);
+  }
+}
+
+/**
+ * Stop accounting for keys that no longer start with a prefix
+ * Used when a namespace moves to a new generation, whose predecessors are unreachable.
+ *
+ * @param redis - Redis or Cluster instance
+ * @param tenantNamespace - Namespace returned by getTenantNamespace
+ * @param keyPrefix - Prefix of the keys still counted (e.g., 'app:tenant:acme:g2:')
+ */
+export async function releaseQuotaExcept(
+  redis: Redis | Cluster,
+  tenantNamespace: string,
+  keyPrefix: string
+): Promise<void> {
+  await runScript(redis, RELEASE_EXCEPT_SCRIPT, getQuotaKeys(tenantNamespace), [keyPrefix]);
+}
+
+/**
+ * Current usage of a tenant with quotas enabled
+ *
+ * @param redis - Redis or Cluster instance
+ * @param tenantNamespace - Namespace returned by getTenantNamespace
+ * @returns Live key count and stored bytes
+ */
+export async function getQuotaUsage(
+  redis: Redis | Cluster,
+  tenantNamespace: string
+): Promise<TenantUsage> {
+  const [keys, bytes] = (await runScript(redis, USAGE_SCRIPT, getQuotaKeys(tenantNamespace), [
+    Date.now(),
+  ])) as [number, number];
+  return { keys, bytes };
+}
@@ -0,0 +1,119 @@
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { VaryByConfig } from './types';
+
+/**
+ * Request attributes read by `varyBy`
+ */
+export interface VaryRequest {
+  headers: IncomingHttpHeaders;
+  params?: Record<string, string>;
+  cookies?: Record<string, string>;
+  user?: any;
+}
+
+/**
+ * Hash of the request attributes selected by `varyBy`, appended to the cache key
+ * Missing attributes count as empty, so requests without them share one variant.
+ *
+ * @param req - Request
+ * @param varyBy - Attributes to vary on
+ * @returns Hex digest, or null when varyBy selects nothing
+ */
+export function getVaryKey(req: VaryRequest, varyBy: VaryByConfig): string | null {
+  const { headers = [], cookies = [], params = [], user = [] } = varyBy;
+  const parts: Array<[string, string]> = [];
+
+  for (const name of headers) {
+    const value = req.headers[name.toLowerCase()];
+    parts.push([
+      `header:${name.toLowerCase()}`,
+      Array.isArray(value) ? value.join(',') : value || '',
+    ]);
+  }
+
+  if (cookies.length > 0) {
+    const jar = req.cookies || parseCookies(req.headers.cookie);
+    for (const name of cookies) {
+      parts.push([`cookie:${name}`, jar[name] || '']);
+    }
+  }
+
+  for (const name of params) {
+    parts.push([`param:${name}`, req.params?.[name] || '']);
+  }
+
+  for (const path of user) {
+    const value = getPath(req.user, path);
+    parts.push([`user:${path}`, value === undefined || value === null ? '' : String(value)]);
+  }
+
+  if (parts.length === 0) {
+    return null;
+  }
+
+  return crypto.createHash('md5').update(JSON.stringify(parts)).digest('hex');
+}
+
+/**
+ * Request headers to announce in `Vary` for a varyBy configuration
+ *
+ * @param varyBy - Attributes to vary on
+ * @returns Header names
+ */
+export function getVaryHeaders(varyBy: VaryByConfig): string[] {
+  const names = [...(varyBy.headers || [])];
+  if (varyBy.cookies && varyBy.cookies.length > 0) {
+    names.push('Cookie');
+  }
+  return names;
+}
+
+/**
+ * Parse a Cookie header into name/value pairs
+ * @private
+ */
+function parseCookies(header: string | undefined): Record<string, string> {
+  const jar: Record<string, string> = {};
+  if (!header) {
+    return jar;
+  }
+
+  for (const pair of header.split(';')) {
+    const index = pair.indexOf('=');
+    if (index === -1) {
+      continue;
+    }
+
+    const name = pair.substring(0, index).trim();
+    if (name && !(name in jar)) {
+      let value = pair.substring(index + 1).trim();
+      if (value.startsWith('"') && value.endsWith('"')) {
+        value = value.slice(1, -1);
+      }
+      try {
+        jar[name] = decodeURIComponent(value);
+      } catch (error) {
+        jar[name] = value;
+      }
+    }
+  }
+
+  return jar;
+}
+
+/**
+ * Read a dot path from an object
+ *
+ * @param target - Object to read
+ * @param path - Dot-separated property path (e.g., 'org.id')
+ * @returns Value, or undefined if any segment is missing
+ */
+export function getPath(target: any, path: string): any {
+  return path
+    .split('.')
+    .reduce(
+      (value, segment) => (value === undefined || value === null ? value : value[segment]),
+      target
+    );
+}
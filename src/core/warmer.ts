@@ -0,0 +1,353 @@
+import http from 'http';
+import https from 'https';
+import {
+  ICacheService,
+  WarmLoader,
+  WarmProgress,
+  WarmReport,
+  WarmRoute,
+  WarmerConfig,
+} from './types';
+import { isEntry } from './entry';
+
+/**
+ * Default number of loaders and route requests run at the same time
+ */
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Default route request timeout in milliseconds
+ */
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * Milliseconds before a failed hot refresh is retried
+ */
+const RETRY_DELAY_MS = 5000;
+
+/**
+ * Shortest delay between two refreshes of a hot entry, in milliseconds
+ */
+const MIN_REFRESH_DELAY_MS = 1000;
+
+/**
+ * Loader or route to warm, with the label used in progress reports
+ */
+type WarmTarget =
+  | { kind: 'loader'; target: string; loader: WarmLoader }
+  | { kind: 'route'; target: string; route: WarmRoute };
+
+/**
+ * `X-Cache` and `X-Cache-Key` of a warmed route's response
+ */
+interface RouteResult {
+  result?: string;
+  key?: string;
+}
+
+/**
+ * Populates the cache ahead of traffic
+ *
+ * Runs `getOrSet`-style loaders and requests auto-cached routes with a concurrency limit,
+ * on demand (`warm()`), on start and on an interval (`start()`). While started, entries
+ * marked `hot` are refreshed shortly before they expire so they never miss.
+ *
+ * @example
+ * ```typescript
+ * const warmer = new CacheWarmer(cache, {
+ *   loaders: [{ key: 'config', load: loadConfig, hot: true }],
+ *   routes: [{ path: '/products?page=1', ttl: 300, hot: true }],
+ *   baseUrl: 'http://localhost:3000',
+ *   warmToken: process.env.CACHE_WARM_TOKEN,
+ *   onProgress: ({ target, error }) => error && console.warn(`Warming ${target} failed`, error),
+ * });
+ *
+ * server.listen(3000, () => warmer.start());
+ * ```
+ */
+export class CacheWarmer {
+  private cache: ICacheService;
+  private config: WarmerConfig;
+  private targets: WarmTarget[];
+  private interval: NodeJS.Timeout | null = null;
+  private refreshTimers = new Map<string, NodeJS.Timeout>();
+  private started = false;
+
+  /**
+   * Create a new CacheWarmer
+   *
+   * @param cache - Cache service the loaders write to; hot routes' entries are read from it,
+   * so it should share the middleware's namespace
+   * @param config - Loaders, routes and scheduling options
+   * @throws If routes are given without `baseUrl`, or hot routes without `ttl` or `warmToken`
+   */
+  constructor(cache: ICacheService, config: WarmerConfig) {
+    const routes = config.routes || [];
+    if (routes.length > 0 && !config.baseUrl) {
+      throw new Error('CacheWarmer requires baseUrl to warm routes');
+    }
+    for (const route of routes) {
+      if (route.hot && (!route.ttl || !config.warmToken)) {
+        throw new Error(`Hot route ${route.path} requires a ttl and the warmer's warmToken`);
+      }
+    }
+
+    this.cache = cache;
+    this.config = config;
+    this.targets = [
+      ...(config.loaders || []).map((loader): WarmTarget => ({
+        kind: 'loader',
+        target: keyLabel(loader.key),
+        loader,
+      })),
+      ...routes.map((route): WarmTarget => ({ kind: 'route', target: `GET ${route.path}`, route })),
+    ];
+  }
+
+  /**
+   * Warm every loader and route once
+   * Loaders only run for keys that are not cached; routes are requested through the
+   * middleware, which serves or stores them like any other request.
+   *
+   * @returns Counts and failures of the run
+   */
+  async warm(): Promise<WarmReport> {
+    const startedAt = Date.now();
+    const total = this.targets.length;
+    const failures: WarmReport['failures'] = [];
+    let completed = 0;
+
+    await runWithConcurrency(
+      this.targets,
+      this.config.concurrency || DEFAULT_CONCURRENCY,
+      async (target) => {
+        let error: unknown;
+        try {
+          await this.warmTarget(target, false);
+        } catch (caught) {
+          error = caught;
+          failures.push({ target: target.target, error });
+        }
+
+        completed++;
+        this.report({
+          phase: 'warm',
+          target: target.target,
+          error,
+          completed,
+          failed: failures.length,
+          total,
+        });
+      }
+    );
+
+    return {
+      total,
+      warmed: total - failures.length,
+      failures,
+      duration: Date.now() - startedAt,
+    };
+  }
+
+  /**
+   * Warm now, then keep hot entries fresh and re-warm on `interval` until `stop()`
+   * Timers do not keep the process alive.
+   *
+   * @returns Report of the initial run
+   */
+  async start(): Promise<WarmReport> {
+    this.started = true;
+
+    if (this.config.interval && !this.interval) {
+      this.interval = setInterval(() => {
+        void this.warm();
+      }, this.config.interval);
+      this.interval.unref();
+    }
+
+    return this.warm();
+  }
+
+  /**
+   * Stop scheduled runs and hot refreshes
+   */
+  stop(): void {
+    this.started = false;
+
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    for (const timer of this.refreshTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.refreshTimers.clear();
+  }
+
+  /**
+   * Warm one loader or route, refreshing it even if cached when `refresh` is set,
+   * then schedule its next refresh if it is hot
+   * @private
+   */
+  private async warmTarget(target: WarmTarget, refresh: boolean): Promise<void> {
+    let ttl: number | undefined;
+
+    if (target.kind === 'loader') {
+      const { loader } = target;
+      if (refresh || !(await this.cache.exists(loader.key))) {
+        const value = await loader.load();
+        if (!(await this.cache.set(loader.key, value, loader.ttl, loader.tags))) {
+          throw new Error(`Cache set failed for ${target.target}`);
+        }
+      }
+      ttl = loader.hot ? await this.cache.ttl(loader.key) : undefined;
+    } else {
+      const { route } = target;
+      const response = await this.request(route, refresh);
+      ttl = route.hot ? await this.remainingTTL(route, response) : undefined;
+    }
+
+    if (ttl !== undefined && ttl > 0) {
+      this.scheduleRefresh(target, ttl);
+    }
+  }
+
+  /**
+   * Seconds until a hot route's entry goes stale: the rest of its lifetime when it was served
+   * from the cache, the route's ttl when the request stored it (or the entry cannot be read)
+   * @private
+   */
+  private async remainingTTL(route: WarmRoute, response: RouteResult): Promise<number | undefined> {
+    if (response.result !== 'HIT' || !response.key) {
+      return route.ttl;
+    }
+
+    const value = await this.cache.get(response.key);
+    return isEntry(value) ? (value.freshUntil - Date.now()) / 1000 : route.ttl;
+  }
+
+  /**
+   * Refresh a hot target shortly before its entry expires
+   * @private
+   */
+  private scheduleRefresh(target: WarmTarget, ttl: number): void {
+    if (!this.started) {
+      return;
+    }
+
+    const ahead = this.config.refreshAhead ?? Math.max(1, ttl * 0.1);
+    this.setRefreshTimer(target, Math.max(MIN_REFRESH_DELAY_MS, (ttl - ahead) * 1000));
+  }
+
+  /**
+   * Replace the refresh timer of a target
+   * @private
+   */
+  private setRefreshTimer(target: WarmTarget, delay: number): void {
+    const previous = this.refreshTimers.get(target.target);
+    if (previous) {
+      clearTimeout(previous);
+    }
+
+    const timer = setTimeout(async () => {
+      this.refreshTimers.delete(target.target);
+      try {
+        await this.warmTarget(target, true);
+        this.report({ phase: 'refresh', target: target.target, completed: 1, failed: 0, total: 1 });
+      } catch (error) {
+        this.report({
+          phase: 'refresh',
+          target: target.target,
+          error,
+          completed: 1,
+          failed: 1,
+          total: 1,
+        });
+        if (this.started) {
+          this.setRefreshTimer(target, RETRY_DELAY_MS);
+        }
+      }
+    }, delay);
+    // Never keep the process alive just to refresh
+    timer.unref();
+    this.refreshTimers.set(target.target, timer);
+  }
+
+  /**
+   * Request a route, sending the warm token when refreshing
+   * @private
+   */
+  private request(route: WarmRoute, refresh: boolean): Promise<RouteResult> {
+    const url = new URL(route.path, this.config.baseUrl);
+    const headers: Record<string, string> = { ...route.headers };
+    if (refresh && this.config.warmToken) {
+      headers['X-Cache-Warm'] = this.config.warmToken;
+    }
+
+    return new Promise((resolve, reject) => {
+      const client = url.protocol === 'https:' ? https : http;
+      const req = client.get(url, { headers }, (res) => {
+        // Drain the body; only the side effect of caching it matters
+        res.resume();
+        res.on('end', () => {
+          const status = res.statusCode || 0;
+          if (status >= 400) {
+            reject(new Error(`Warming ${url.pathname} failed with status ${status}`));
+          } else {
+            resolve({
+              result: res.headers['x-cache'] as string | undefined,
+              key: res.headers['x-cache-key'] as string | undefined,
+            });
+          }
+        });
+        res.on('error', reject);
+      });
+
+      req.setTimeout(this.config.timeout || DEFAULT_TIMEOUT_MS, () => {
+        req.destroy(new Error(`Warming ${url.pathname} timed out`));
+      });
+      req.on('error', reject);
+    });
+  }
+
+  /**
+   * Pass progress to `onProgress`, never letting the callback break a run
+   * @private
+   */
+  private report(progress: WarmProgress): void {
+    if (!this.config.onProgress) {
+      return;
+    }
+    try {
+      this.config.onProgress(progress);
+    } catch (error) {
+      console.error('Cache warmer progress callback error:', error);
+    }
+  }
+}
+
+/**
+ * Label of a loader key in progress reports
+ * @private
+ */
+function keyLabel(key: WarmLoader['key']): string {
+  return typeof key === 'string' ? key : key.key;
+}
+
+/**
+ * Run a worker over items with at most `limit` running at once
+ * @private
+ */
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const run = async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+}
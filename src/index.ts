@@ -5,21 +5,87 @@
  *
  * Features:
  * - Auto-caching for GET requests
- * - Tag-based cache invalidation
+ * - Tag-based cache invalidation with transitive tag dependencies
  * - Pattern-based cache clearing
- * - Redis Cluster support
- * - User-specific caching
+ * - Invalidation dry runs and audit trail
+ * - Redis Cluster support (slot-aware deletes, optional hash tags)
+ * - Per-user and per-session cache partitions
  * - Non-blocking operations
+ * - Pluggable compression (gzip, brotli, custom codecs)
+ * - Pluggable serializers (JSON, rich JSON, MessagePack)
+ * - Stale-while-revalidate and cache stampede protection
+ * - Two-tier caching with pub/sub invalidation across instances
+ * - Prometheus-compatible metrics
+ * - Full HTTP response caching (status, headers, any body)
+ * - Conditional GET (ETag / Last-Modified) and Cache-Control headers
+ * - Cache-Control request and response directives
+ * - Multi-tenant key scoping with quotas
+ * - Generation-based cache versioning
+ * - Typed keys and validated reads
+ * - Pluggable storage with an in-process memory store for tests and local dev
+ * - Cache warming with hot-entry refresh
+ * - GraphQL query and resolver caching
+ * - Express, Fastify and Koa adapters sharing one cache engine
+ * - Web Request/Response handler adapter for node:http and fetch-style runtimes
  *
  * @packageDocumentation
  */
 
 // Core exports
 export { CacheService } from './core/cache';
+export { CacheEngine } from './core/engine';
+export type {
+  CacheRequest,
+  CacheScope,
+  CacheFill,
+  CacheResult,
+  ResponseLookup,
+} from './core/engine';
 export { createRedisClient, createStandaloneRedisClient, checkRedisHealth } from './core/redis';
+export {
+  CompressionEnvelope,
+  noneCodec,
+  gzipCodec,
+  deflateCodec,
+  brotliCodec,
+} from './core/compression';
+export { jsonSerializer, richJsonSerializer, msgpackSerializer } from './core/serializer';
+export { RedisStore } from './core/redis-store';
+export { MemoryStore } from './core/memory-store';
+export { CacheWarmer } from './core/warmer';
+export { LockTimeoutError } from './core/lock';
+export { TemplateError, compileTemplate } from './core/invalidation-template';
+export type { CompiledTemplate, TemplateContext } from './core/invalidation-template';
+export { TagCycleError } from './core/tag-graph';
+export { RedisStreamAuditSink } from './core/audit';
+export {
+  GraphQLSyntaxError,
+  parseOperation,
+  normalizeDocument,
+  collectEntityTags,
+  resolveCacheHint,
+} from './core/graphql';
+export type { GraphQLOperation, GraphQLOperationType, GraphQLField } from './core/graphql';
+export type { RedisStreamAuditOptions } from './core/audit';
+export { LocalCache } from './core/local-cache';
+export { InvalidationBus } from './core/invalidation-bus';
+export { CacheMetrics, Counter, Histogram, PROMETHEUS_CONTENT_TYPE } from './core/metrics';
+export { captureResponse, replayResponse, DEFAULT_CACHED_HEADERS } from './core/response';
+export type { CaptureOptions } from './core/response';
+export { createETag, isNotModified, formatCacheControl } from './core/http-cache';
+export type { HeaderTarget } from './core/http-cache';
+export { getKeySlot } from './core/cluster';
+export { defineKey } from './core/keys';
+export type { KeyTemplate, KeyParams } from './core/keys';
 
 // Adapter exports
-export { cacheMiddleware } from './adapters/express';
+export { cacheMiddleware, metricsHandler } from './adapters/express';
+export { graphqlCacheMiddleware, cacheResolver } from './adapters/graphql';
+export { fastifyCache } from './adapters/fastify';
+export type { FastifyCacheHooks } from './adapters/fastify';
+export { koaCache } from './adapters/koa';
+export { webCache, toRequestListener } from './adapters/web';
+export type { WebHandler } from './adapters/web';
 
 // Type exports
 export type {
@@ -27,8 +93,54 @@ export type {
   AutoCacheConfig,
   InvalidationConfig,
   CacheConfig,
+  GraphQLCacheConfig,
+  GraphQLInvalidation,
+  CacheHint,
+  ResolverCacheOptions,
+  ResolverInfo,
+  FastifyCacheRequest,
+  FastifyCacheReply,
+  KoaCacheContext,
   RedisConfig,
   ICacheService,
+  CacheServiceOptions,
+  CompressionCodec,
+  CompressionConfig,
+  BuiltinCodecName,
+  Serializer,
+  BuiltinSerializerName,
+  StampedeConfig,
+  CacheEntry,
+  CachedResponse,
+  CacheControlConfig,
+  VaryByConfig,
+  PartitionScope,
+  TenantConfig,
+  TenantQuota,
+  TenantUsage,
+  VersioningConfig,
+  TagSweeperConfig,
+  L1Config,
+  L1Stats,
+  CacheLookup,
+  CacheKey,
+  CacheValidator,
+  ReadOptions,
+  CacheTier,
+  CacheStore,
+  StoredValue,
+  WarmerConfig,
+  WarmLoader,
+  WarmRoute,
+  WarmProgress,
+  WarmReport,
+  InvalidationPreview,
+  InvalidationTargets,
+  InvalidationAuditEvent,
+  AuditSink,
+  AuditConfig,
+  InvalidationMessage,
+  MetricsConfig,
 } from './core/types';
 
 // Re-export Redis types for convenience
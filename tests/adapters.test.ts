@@ -0,0 +1,378 @@
+/**
+ * Periodic Osmium - Adapter Parity Tests
+ *
+ * The same scenarios run against Express, Fastify and Koa apps.
+ */
+
+import http from 'http';
+import express from 'express';
+import Fastify, { FastifyReply, FastifyRequest } from 'fastify';
+import Koa from 'koa';
+import { AddressInfo } from 'net';
+import { CacheService } from '../src/core/cache';
+import { MemoryStore } from '../src/core/memory-store';
+import { createEntry } from '../src/core/entry';
+import { cacheMiddleware } from '../src/adapters/express';
+import { fastifyCache } from '../src/adapters/fastify';
+import { koaCache } from '../src/adapters/koa';
+import { CacheConfig, CachedResponse } from '../src/core/types';
+
+/**
+ * Route behavior shared by every host: GET /items/:id returns the item with a call counter
+ * and the `cacheControl` header after `delay` ms, PUT /items/:id returns the item; both fail
+ * with a 500 while `failing` is set
+ */
+interface Backend {
+  calls: number;
+  failing: boolean;
+  cacheControl?: string;
+  delay?: number;
+}
+
+const pause = (ms = 0) => new Promise((resolve) => setTimeout(resolve, ms));
+
+type Host = (
+  store: MemoryStore,
+  config: CacheConfig<any, any>,
+  backend: Backend
+) => http.Server | Promise<http.Server>;
+
+const expressHost: Host = (store, config, backend) => {
+  const app = express();
+  const handler = async (req: express.Request, res: express.Response) => {
+    await pause(backend.delay);
+    if (backend.failing) {
+      return res.status(500).json({ error: 'down' });
+    }
+    if (backend.cacheControl) {
+      res.set('Cache-Control', backend.cacheControl);
+    }
+    return res.json({ id: req.params.id, calls: req.method === 'GET' ? ++backend.calls : 0 });
+  };
+  app.get('/items/:id', cacheMiddleware(store, config), handler);
+  app.put('/items/:id', cacheMiddleware(store, config), handler);
+  return http.createServer(app);
+};
+
+const fastifyHost: Host = async (store, config, backend) => {
+  const app = Fastify();
+  const hooks = fastifyCache<FastifyRequest, FastifyReply>(store, config);
+  const handler = async (
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) => {
+    await pause(backend.delay);
+    if (backend.failing) {
+      return reply.code(500).send({ error: 'down' });
+    }
+    if (backend.cacheControl) {
+      reply.header('cache-control', backend.cacheControl);
+    }
+    return { id: request.params.id, calls: request.method === 'GET' ? ++backend.calls : 0 };
+  };
+  app.decorateRequest('cache', null);
+  app.addHook('onRequest', hooks.onRequest);
+  app.addHook('onSend', hooks.onSend);
+  app.get('/items/:id', handler);
+  app.put('/items/:id', handler);
+  await app.ready();
+  return app.server;
+};
+
+const koaHost: Host = async (store, config, backend) => {
+  const app = new Koa();
+  const cache = koaCache<Koa.Context>(store, config);
+  // Errors thrown downstream without a stale entry become Koa's default 500
+  app.silent = true;
+  app.use(async (ctx, next) => {
+    // What a router such as @koa/router sets for a matched route
+    const match = /^\/items\/([^/]+)$/.exec(ctx.path);
+    if (match) {
+      ctx.params = { id: match[1] };
+      ctx._matchedRoute = '/items/:id';
+      await next();
+    }
+  });
+  app.use(cache);
+  app.use(async (ctx) => {
+    await pause(backend.delay);
+    if (backend.failing) {
+      throw new Error('down');
+    }
+    if (backend.cacheControl) {
+      ctx.set('Cache-Control', backend.cacheControl);
+    }
+    ctx.body = { id: ctx.params.id, calls: ctx.method === 'GET' ? ++backend.calls : 0 };
+  });
+  return http.createServer(app.callback());
+};
+
+/**
+ * Send a request and collect the response
+ */
+function send(
+  server: http.Server,
+  path: string,
+  options: { method?: string; headers?: http.OutgoingHttpHeaders } = {}
+): Promise<{ statusCode: number; headers: http.IncomingHttpHeaders; body: string }> {
+  const { port } = server.address() as AddressInfo;
+  return new Promise((resolve, reject) => {
+    const req = http.request({ port, path, ...options }, (res) => {
+      let body = '';
+      res.on('data', (chunk) => (body += chunk));
+      res.on('end', () =>
+        resolve({ statusCode: res.statusCode as number, headers: res.headers, body })
+      );
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+const settle = () => pause(30);
+
+describe.each([
+  ['Express', expressHost],
+  ['Fastify', fastifyHost],
+  ['Koa', koaHost],
+])('%s adapter', (_name, host) => {
+  let store: MemoryStore;
+  let backend: Backend;
+  let server: http.Server;
+
+  const start = async (config: CacheConfig<any, any>) => {
+    server = await host(store, config, backend);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+  };
+
+  // Store an item entry that is already past its fresh lifetime
+  const seed = async (policy: { staleWhileRevalidate?: number; staleIfError?: number }) => {
+    const response: CachedResponse = {
+      status: 200,
+      headers: { 'content-type': 'application/json; charset=utf-8' },
+      body: JSON.stringify({ id: '1', calls: 0 }),
+      encoding: 'utf8',
+    };
+    const entry = { ...createEntry(response, -1, policy), kind: 'response' as const };
+    await new CacheService(store, 'app', 60).set('GET:/items/1', entry, 60);
+  };
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    backend = { calls: 0, failing: false };
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test('should cache GET responses and answer conditional requests', async () => {
+    await start({ ttl: 60, autoCache: { cacheControl: true } });
+
+    const miss = await send(server, '/items/1');
+    expect(miss.headers['x-cache']).toBe('MISS');
+    expect(miss.headers['x-cache-key']).toBe('GET:/items/1');
+    expect(miss.headers['cache-control']).toBe('public, max-age=60');
+    await settle();
+
+    const hit = await send(server, '/items/1');
+    expect(hit.headers['x-cache']).toBe('HIT');
+    expect(hit.headers['content-type']).toBe('application/json; charset=utf-8');
+    expect(JSON.parse(hit.body)).toEqual({ id: '1', calls: 1 });
+
+    const notModified = await send(server, '/items/1', {
+      headers: { 'if-none-match': hit.headers.etag },
+    });
+    expect(notModified.statusCode).toBe(304);
+    expect(backend.calls).toBe(1);
+  });
+
+  test('should keep a separate entry per varied header and cookie value', async () => {
+    await start({
+      ttl: 60,
+      autoCache: { varyBy: { headers: ['accept-language'], cookies: ['theme'] } },
+    });
+    const variants = [
+      { 'accept-language': 'en', cookie: 'theme=dark' },
+      { 'accept-language': 'fr', cookie: 'theme=dark' },
+      { 'accept-language': 'en', cookie: 'theme=light' },
+    ];
+
+    for (const [index, headers] of variants.entries()) {
+      const miss = await send(server, '/items/1', { headers });
+      expect(miss.headers['x-cache']).toBe('MISS');
+      expect(miss.headers.vary).toBe('accept-language, Cookie');
+      expect(JSON.parse(miss.body).calls).toBe(index + 1);
+      await settle();
+    }
+
+    for (const [index, headers] of variants.entries()) {
+      const hit = await send(server, '/items/1', { headers });
+      expect(hit.headers['x-cache']).toBe('HIT');
+      expect(hit.headers.vary).toBe('accept-language, Cookie');
+      expect(JSON.parse(hit.body).calls).toBe(index + 1);
+    }
+    expect(backend.calls).toBe(3);
+  });
+
+  test('should run the route once for concurrent misses', async () => {
+    await start({ ttl: 60 });
+    backend.delay = 50;
+
+    const responses = await Promise.all([1, 2, 3, 4, 5].map(() => send(server, '/items/1')));
+    expect(backend.calls).toBe(1);
+    expect(responses.map((response) => JSON.parse(response.body).calls)).toEqual([1, 1, 1, 1, 1]);
+    expect(responses.filter((response) => response.headers['x-cache'] === 'MISS')).toHaveLength(1);
+  });
+
+  test.each([
+    ['run the route', 'fetch', 200, 1],
+    ['fail', 'error', 500, 0],
+  ] as const)(
+    'should %s when another instance keeps the recompute lock',
+    async (_case, fallback, statusCode, calls) => {
+      await start({
+        ttl: 60,
+        stampede: { distributedLock: true, waitTimeout: 100, pollInterval: 20, fallback },
+      });
+      // Another instance is computing the entry and never stores it
+      await new CacheService(store, 'app', 60).acquireLock('GET:/items/1', 5000);
+
+      const response = await send(server, '/items/1');
+      expect(response.statusCode).toBe(statusCode);
+      expect(backend.calls).toBe(calls);
+    }
+  );
+
+  test('should refresh on client no-cache and bypass on no-store', async () => {
+    await start({ ttl: 60, autoCache: { requestDirectives: true } });
+    await send(server, '/items/1');
+    await settle();
+
+    const refreshed = await send(server, '/items/1', { headers: { 'cache-control': 'no-cache' } });
+    expect(refreshed.headers['x-cache']).toBe('MISS');
+    expect(JSON.parse(refreshed.body).calls).toBe(2);
+    await settle();
+
+    const bypassed = await send(server, '/items/1', { headers: { 'cache-control': 'no-store' } });
+    expect(bypassed.headers['x-cache']).toBeUndefined();
+    expect(JSON.parse(bypassed.body).calls).toBe(3);
+
+    const hit = await send(server, '/items/1');
+    expect(hit.headers['x-cache']).toBe('HIT');
+    expect(JSON.parse(hit.body).calls).toBe(2);
+  });
+
+  test.each([
+    ['by default', {}],
+    ['from untrusted callers', { requestDirectives: () => false }],
+  ])('should ignore client directives %s', async (_case, autoCache) => {
+    await start({ ttl: 60, autoCache });
+    await send(server, '/items/1');
+    await settle();
+
+    const response = await send(server, '/items/1', {
+      headers: { 'cache-control': 'no-cache', pragma: 'no-cache' },
+    });
+    expect(response.headers['x-cache']).toBe('HIT');
+  });
+
+  test('should not store responses the controller marks private or no-store', async () => {
+    await start({ ttl: 60 });
+
+    for (const cacheControl of ['private, max-age=60', 'no-store', 'max-age=0']) {
+      backend.cacheControl = cacheControl;
+      await send(server, '/items/1');
+      await settle();
+      expect((await send(server, '/items/1')).headers['x-cache']).toBe('MISS');
+    }
+  });
+
+  test('should not mistake its own Cache-Control header for the controller directives', async () => {
+    await start({ ttl: 60, autoCache: { cacheControl: { visibility: 'private' } } });
+
+    const miss = await send(server, '/items/1');
+    expect(miss.headers['cache-control']).toBe('private, max-age=60');
+    await settle();
+    expect((await send(server, '/items/1')).headers['x-cache']).toBe('HIT');
+  });
+
+  test("should use the controller's s-maxage as the entry lifetime", async () => {
+    await start({ ttl: 60, autoCache: { cacheControl: true } });
+    backend.cacheControl = 'public, max-age=5, s-maxage=1';
+
+    const miss = await send(server, '/items/1');
+    expect(miss.headers['cache-control']).toBe('public, max-age=5, s-maxage=1');
+    await settle();
+    expect((await send(server, '/items/1')).headers['x-cache']).toBe('HIT');
+
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    expect((await send(server, '/items/1')).headers['x-cache']).toBe('MISS');
+  });
+
+  test('should invalidate keys resolved from route params after a mutation', async () => {
+    await start({ ttl: 60, invalidate: { keys: ['GET:/items/{params.id}'] } });
+    await send(server, '/items/1');
+    await send(server, '/items/2');
+    await settle();
+
+    expect((await send(server, '/items/1', { method: 'PUT' })).headers['x-cache']).toBeUndefined();
+    await settle();
+
+    expect((await send(server, '/items/1')).headers['x-cache']).toBe('MISS');
+    expect((await send(server, '/items/2')).headers['x-cache']).toBe('HIT');
+  });
+
+  test('should serve stale entries and refresh them in the background', async () => {
+    await start({ ttl: 60, autoCache: { staleWhileRevalidate: 60 } });
+    await seed({ staleWhileRevalidate: 60 });
+
+    const stale = await send(server, '/items/1');
+    expect(stale.headers['x-cache']).toBe('STALE');
+    expect(JSON.parse(stale.body).calls).toBe(0);
+    await settle();
+
+    const fresh = await send(server, '/items/1');
+    expect(fresh.headers['x-cache']).toBe('HIT');
+    expect(JSON.parse(fresh.body).calls).toBe(1);
+  });
+
+  test('should replace server errors with the last good response', async () => {
+    await start({ ttl: 60, autoCache: { staleIfError: 60 } });
+    await seed({ staleIfError: 60 });
+    backend.failing = true;
+
+    const response = await send(server, '/items/1');
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['x-cache']).toBe('STALE');
+    expect(JSON.parse(response.body)).toEqual({ id: '1', calls: 0 });
+  });
+});
+
+describe('Express adapter with writeHead', () => {
+  test('should honor Cache-Control passed to res.writeHead', async () => {
+    const store = new MemoryStore();
+    const app = express();
+    app.get(
+      '/report',
+      cacheMiddleware(store, { ttl: 60, autoCache: { cacheControl: true } }),
+      (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'text/plain', 'Cache-Control': 'no-store' });
+        res.end('report');
+      }
+    );
+    const server = http.createServer(app);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+
+    try {
+      const miss = await send(server, '/report');
+      expect(miss.headers['cache-control']).toBe('no-store');
+      expect(miss.body).toBe('report');
+      await settle();
+
+      expect((await send(server, '/report')).headers['x-cache']).toBe('MISS');
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
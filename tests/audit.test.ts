@@ -0,0 +1,167 @@
+/**
+ * Periodic Osmium - Invalidation Audit Tests
+ */
+
+import http from 'http';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { CacheService } from '../src/core/cache';
+import { MemoryStore } from '../src/core/memory-store';
+import { RedisStreamAuditSink } from '../src/core/audit';
+import { cacheMiddleware } from '../src/adapters/express';
+import { CacheConfig, InvalidationAuditEvent } from '../src/core/types';
+
+/**
+ * Serve a PUT route behind cacheMiddleware and send one request to it
+ */
+async function put(store: MemoryStore, config: CacheConfig, path: string): Promise<void> {
+  const app = express();
+  app.use((req, _res, next) => {
+    (req as any).user = { id: 7 };
+    next();
+  });
+  app.put('/items/:id', cacheMiddleware(store, config), (req, res) => {
+    res.json({ id: req.params.id });
+  });
+
+  const server = http.createServer(app);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const req = http.request({ port, path, method: 'PUT' }, (res) => {
+        res.resume();
+        res.on('end', resolve);
+      });
+      req.on('error', reject);
+      req.end();
+    });
+    // Invalidation runs once the response has finished
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+}
+
+describe('Invalidation audit', () => {
+  let store: MemoryStore;
+  let cache: CacheService;
+  let events: InvalidationAuditEvent[];
+  const audit = { sink: { write: (event: InvalidationAuditEvent) => void events.push(event) } };
+
+  beforeEach(async () => {
+    store = new MemoryStore();
+    cache = new CacheService(store, 'app', 60);
+    events = [];
+    await cache.set('item:1', 'value', 60, ['item:1']);
+    await cache.set('list:1', 'value');
+    await cache.set('list:2', 'value');
+  });
+
+  test('should record who invalidated what and how many keys were removed', async () => {
+    await put(
+      store,
+      { audit, invalidate: { tags: ['item:{params.id}'], patterns: ['list:*'] } },
+      '/items/1?x=1'
+    );
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      method: 'PUT',
+      route: '/items/:id',
+      url: '/items/1?x=1',
+      status: 200,
+      actor: '7',
+      namespace: 'app',
+      targets: { tags: ['item:1'], keys: [], patterns: ['list:*'], bumpVersion: false },
+      dryRun: false,
+      removed: 3,
+    });
+    expect(events[0].keys).toBeUndefined();
+    expect(events[0].duration).toBeGreaterThanOrEqual(0);
+    expect(store.size).toBe(0);
+  });
+
+  test('should list the keys a dry run would delete without deleting them', async () => {
+    await put(
+      store,
+      {
+        audit: { ...audit, actor: () => 'ci' },
+        invalidate: { dryRun: true, tags: ['item:{params.id}'], keys: ['list:1', 'missing'] },
+      },
+      '/items/1'
+    );
+
+    expect(events[0]).toMatchObject({ actor: 'ci', dryRun: true, removed: 2 });
+    expect(events[0].keys?.sort()).toEqual(['app:item:1', 'app:list:1']);
+    expect(await cache.exists('item:1')).toBe(true);
+    expect(await cache.exists('list:1')).toBe(true);
+  });
+
+  test('should require an audit sink for dry runs', () => {
+    expect(() =>
+      cacheMiddleware(store, { invalidate: { dryRun: true, tags: ['item:1'] } })
+    ).toThrow('invalidate.dryRun requires an audit sink');
+  });
+
+  test('should keep serving requests when the sink fails', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const sink = { write: () => Promise.reject(new Error('sink down')) };
+
+    try {
+      await put(store, { audit: { sink }, invalidate: { tags: ['item:1'] } }, '/items/1');
+
+      expect(await cache.exists('item:1')).toBe(false);
+      expect(error).toHaveBeenCalledWith('Cache audit write error:', new Error('sink down'));
+    } finally {
+      error.mockRestore();
+    }
+  });
+
+  test('should append events to a Redis Stream', async () => {
+    const xadd = jest.fn(async () => '1-0');
+    const sink = new RedisStreamAuditSink({ xadd } as any, { stream: 'audit', maxLength: 100 });
+
+    await sink.write({
+      timestamp: 1,
+      method: 'DELETE',
+      route: '/items/:id',
+      url: '/items/1',
+      status: 204,
+      namespace: 'app',
+      targets: { tags: ['item:1'], keys: [], patterns: [], bumpVersion: false },
+      dryRun: false,
+      removed: 1,
+      duration: 2,
+    });
+
+    expect(xadd).toHaveBeenCalledWith(
+      'audit',
+      'MAXLEN',
+      '~',
+      100,
+      '*',
+      'timestamp',
+      '1',
+      'method',
+      'DELETE',
+      'route',
+      '/items/:id',
+      'url',
+      '/items/1',
+      'status',
+      '204',
+      'namespace',
+      'app',
+      'targets',
+      '{"tags":["item:1"],"keys":[],"patterns":[],"bumpVersion":false}',
+      'dryRun',
+      'false',
+      'removed',
+      '1',
+      'duration',
+      '2'
+    );
+  });
+});
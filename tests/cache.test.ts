@@ -3,20 +3,33 @@
  */
 
 import { CacheService } from '../src/core/cache';
+import { defineKey } from '../src/core/keys';
 import { createRedisClient } from '../src/core/redis';
+import { LockTimeoutError } from '../src/core/lock';
+import { MemoryStore } from '../src/core/memory-store';
+import { RedisStore } from '../src/core/redis-store';
+import { TagCycleError } from '../src/core/tag-graph';
+import { CacheStore } from '../src/core/types';
 
 describe('CacheService', () => {
-  let redis: any;
+  let store: CacheStore;
   let cache: CacheService;
 
+  /** Raw stored value of a fully qualified key */
+  const raw = async (key: string) => {
+    const [stored] = await store.getMany([key]);
+    return stored ? stored.data.toString() : null;
+  };
+
   beforeAll(() => {
-    redis = createRedisClient({
-      url: process.env.REDIS_URL,
-    });
+    // Runs against a live Redis when REDIS_URL is set, in memory otherwise
+    store = process.env.REDIS_URL
+      ? new RedisStore(createRedisClient({ url: process.env.REDIS_URL }))
+      : new MemoryStore();
   });
 
   beforeEach(() => {
-    cache = new CacheService(redis, 'test', 60);
+    cache = new CacheService(store, 'test', 60);
   });
 
   afterEach(async () => {
@@ -25,7 +38,9 @@ describe('CacheService', () => {
   });
 
   afterAll(async () => {
-    await redis.quit();
+    if (store instanceof RedisStore) {
+      await store.redis.quit();
+    }
   });
 
   describe('Basic Operations', () => {
@@ -118,6 +133,179 @@ describe('CacheService', () => {
       expect(await cache.get('key2')).toBeNull();
       expect(await cache.get('key3')).toBeNull();
     });
+
+    test('should keep a tag set alive as long as its longest-lived member', async () => {
+      await cache.set('long', 'value', 600, ['mixed']);
+      await cache.set('short', 'value', 5, ['mixed']);
+
+      expect(await store.ttl('test:tag:mixed')).toBeGreaterThan(500);
+    });
+
+    test('should remove members of deleted entries from tag sets', async () => {
+      await cache.set('kept', 'value', 60, ['sweep']);
+      await cache.set('gone', 'value', 60, ['sweep']);
+      await store.del(['test:gone']);
+
+      expect(await cache.sweepTags()).toBe(1);
+      expect(await store.popTag('test:tag:sweep')).toEqual(['test:kept']);
+    });
+
+    test('should sweep tags containing "tag:" without touching dependency sets', async () => {
+      const tagged = new CacheService(store, 'test', 60, { hashTags: true });
+      const acme = cache.forTenant('acme');
+      for (const service of [cache, tagged, acme]) {
+        await service.addTagDependency('tag:news', ['hashtag:js']);
+        await service.set('kept', 'value', 60, ['hashtag:js']);
+        await service.set('gone', 'value', 60, ['hashtag:js']);
+        await service.del('gone');
+      }
+
+      expect(await cache.sweepTags()).toBe(2);
+      expect(await tagged.sweepTags()).toBe(1);
+      expect(await store.popTag('test:tag:hashtag:js')).toEqual(['test:kept']);
+      expect(await store.popTag('{test}:tagdeps:tag:news')).toEqual(['hashtag:js']);
+      expect(await store.popTag('test:tenant:acme:tagdeps:tag:news')).toEqual(['hashtag:js']);
+    });
+  });
+
+  describe('Tag Dependencies', () => {
+    beforeEach(async () => {
+      await cache.addTagDependency('org:1', ['project:1', 'project:2']);
+      await cache.addTagDependency('project:1', ['task:1']);
+      await cache.set('org', 'value', 60, ['org:1']);
+      await cache.set('project', 'value', 60, ['project:1']);
+      await cache.set('task', 'value', 60, ['task:1']);
+      await cache.set('other', 'value', 60, ['org:2']);
+    });
+
+    test('should invalidate dependent tags transitively', async () => {
+      expect(await cache.invalidateByTags(['org:1'])).toBe(3);
+
+      expect(await cache.exists('task')).toBe(false);
+      expect(await cache.exists('other')).toBe(true);
+    });
+
+    test('should preview the keys without deleting them', async () => {
+      const preview = await cache.previewInvalidateByTags(['org:1']);
+
+      expect(preview.tags).toEqual(['org:1', 'project:1', 'project:2', 'task:1']);
+      expect(preview.keys.sort()).toEqual(['test:org', 'test:project', 'test:task']);
+      expect(await cache.exists('task')).toBe(true);
+    });
+
+    test('should reject dependencies that form a cycle', async () => {
+      await expect(cache.addTagDependency('task:1', ['org:1'])).rejects.toThrow(
+        'Tag dependency cycle: task:1 -> org:1 -> project:1 -> task:1'
+      );
+      await expect(cache.addTagDependency('org:2', ['org:2'])).rejects.toThrow(TagCycleError);
+    });
+
+    test('should stop following removed dependencies', async () => {
+      await cache.removeTagDependency('project:1', ['task:1']);
+
+      expect(await cache.invalidateByTags(['org:1'])).toBe(2);
+      expect(await cache.exists('task')).toBe(true);
+    });
+
+    test('should keep dependencies of tags containing "tag:" through a sweep', async () => {
+      await cache.addTagDependency('tag:news', ['hashtag:js']);
+      await cache.set('post', 'value', 60, ['hashtag:js']);
+
+      expect(await cache.sweepTags()).toBe(0);
+      expect(await cache.invalidateByTags(['tag:news'])).toBe(1);
+      expect(await cache.exists('post')).toBe(false);
+    });
+  });
+
+  describe('Batch Operations', () => {
+    test('should get many values in order with nulls for misses', async () => {
+      await cache.set('a', { id: 'a' });
+      await cache.set('c', { id: 'c' });
+
+      expect(await cache.mget(['a', 'b', 'c'])).toEqual([{ id: 'a' }, null, { id: 'c' }]);
+      expect(await cache.mget([])).toEqual([]);
+    });
+
+    test('should set many values with a shared TTL and tags', async () => {
+      expect(await cache.mset({ x: 1, y: 2 }, 120, ['batch'])).toBe(true);
+
+      expect(await cache.mget(['x', 'y'])).toEqual([1, 2]);
+      expect(await cache.ttl('y')).toBeGreaterThan(60);
+      expect(await cache.invalidateByTags(['batch'])).toBe(2);
+    });
+
+    test('should delete many values', async () => {
+      await cache.mset({ x: 1, y: 2 });
+
+      expect(await cache.mdel(['x', 'y', 'z'])).toBe(2);
+      expect(await cache.exists('x')).toBe(false);
+    });
+
+    test('should fetch only the misses in one call', async () => {
+      await cache.set('user:1', { id: 1 });
+      const batchFetcher = jest.fn(async (keys: string[]) =>
+        keys.map((key) => (key === 'user:404' ? null : { id: Number(key.split(':')[1]) }))
+      );
+
+      const users = await cache.getOrSetMany(['user:1', 'user:2', 'user:404'], batchFetcher);
+
+      expect(users).toEqual([{ id: 1 }, { id: 2 }, null]);
+      expect(batchFetcher).toHaveBeenCalledTimes(1);
+      expect(batchFetcher).toHaveBeenCalledWith(['user:2', 'user:404']);
+      expect(await cache.get('user:2')).toEqual({ id: 2 });
+      expect(await cache.exists('user:404')).toBe(false);
+    });
+  });
+
+  describe('Validation', () => {
+    const isUser = (value: any) => {
+      if (typeof value?.id !== 'number') {
+        throw new Error('Not a user');
+      }
+      return value as { id: number };
+    };
+
+    test('should evict entries rejected by a per-call validator', async () => {
+      await cache.set('user:1', { name: 'no id' });
+
+      expect(await cache.get('user:1', undefined, { validate: isUser })).toBeNull();
+      expect(await cache.exists('user:1')).toBe(false);
+    });
+
+    test('should apply the longest matching prefix validator', async () => {
+      const validated = new CacheService(store, 'test', 60, {
+        validators: { 'user:': isUser, 'user:settings:': (value) => value },
+      });
+      await validated.set('user:1', { id: 1 });
+      await validated.set('user:2', 'drifted');
+      await validated.set('user:settings:1', 'anything');
+
+      expect(await validated.mget(['user:1', 'user:2', 'user:settings:1'])).toEqual([
+        { id: 1 },
+        null,
+        'anything',
+      ]);
+      expect(await validated.exists('user:2')).toBe(false);
+    });
+
+    test('should decode values with schema objects', async () => {
+      const dated = { parse: (value: any) => ({ at: new Date(value.at) }) };
+      await cache.set('event', { at: '2024-01-01T00:00:00.000Z' });
+
+      const event = await cache.get('event', undefined, { validate: dated });
+
+      expect(event?.at).toBeInstanceOf(Date);
+    });
+
+    test('should refetch in getOrSet when the cached value is rejected', async () => {
+      const userKey = defineKey('user:{id}', isUser);
+      await cache.set('user:7', { legacy: true });
+
+      const user = await cache.getOrSet(userKey.build({ id: 7 }), async () => ({ id: 7 }));
+
+      expect(user).toEqual({ id: 7 });
+      expect(await cache.get(userKey.build({ id: 7 }))).toEqual({ id: 7 });
+    });
   });
 
   describe('Pattern-Based Operations', () => {
@@ -133,6 +321,30 @@ describe('CacheService', () => {
       expect(await cache.get('list:page:2')).toBeNull();
       expect(await cache.get('search:query')).not.toBeNull();
     });
+
+    test('should preview pattern deletes without deleting', async () => {
+      await cache.set('list:page:1', 'data1');
+      await cache.set('search:query', 'data2');
+
+      expect(await cache.previewDelPattern('list:*')).toEqual(['test:list:page:1']);
+      expect(await cache.exists('list:page:1')).toBe(true);
+    });
+
+    test('should only preview keys that still exist', async () => {
+      await cache.set('tagged', 'value', 60, ['preview']);
+      await cache.set('gone', 'value', 60, ['preview']);
+      await store.del(['test:gone']);
+      await cache.set('list:1', 'value');
+
+      const preview = await cache.previewInvalidation({
+        tags: ['preview'],
+        keys: ['list:1', 'missing'],
+        patterns: ['list:*'],
+      });
+
+      expect(preview.tags).toEqual(['preview']);
+      expect(preview.keys.sort()).toEqual(['test:list:1', 'test:tagged']);
+    });
   });
 
   describe('Cache-Aside Pattern', () => {
@@ -157,6 +369,130 @@ describe('CacheService', () => {
     });
   });
 
+  describe('Stampede Protection', () => {
+    const slowFetcher = (counter: { calls: number }) => async () => {
+      counter.calls++;
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      return { data: 'fetched' };
+    };
+
+    test('should coalesce concurrent misses within the process', async () => {
+      const counter = { calls: 0 };
+      const fetcher = slowFetcher(counter);
+
+      const results = await Promise.all([
+        cache.getOrSet('test:flight', fetcher),
+        cache.getOrSet('test:flight', fetcher),
+        cache.getOrSet('test:flight', fetcher),
+      ]);
+
+      expect(counter.calls).toBe(1);
+      expect(results).toEqual([{ data: 'fetched' }, { data: 'fetched' }, { data: 'fetched' }]);
+    });
+
+    test('should let only the lock holder fetch across instances', async () => {
+      const options = { stampede: { singleFlight: false, distributedLock: true } };
+      const instanceA = new CacheService(store, 'test', 60, options);
+      const instanceB = new CacheService(store, 'test', 60, options);
+      const counter = { calls: 0 };
+      const fetcher = slowFetcher(counter);
+
+      const results = await Promise.all([
+        instanceA.getOrSet('test:locked', fetcher),
+        instanceB.getOrSet('test:locked', fetcher),
+      ]);
+
+      expect(counter.calls).toBe(1);
+      expect(results[1]).toEqual(results[0]);
+      expect(await store.exists('test:lock:test:locked')).toBe(false);
+    });
+
+    test('should only release a lock with its token', async () => {
+      const token = await cache.acquireLock('test:token');
+
+      expect(token).not.toBeNull();
+      expect(await cache.acquireLock('test:token')).toBeNull();
+      expect(await cache.releaseLock('test:token', 'not-the-token')).toBe(false);
+      expect(await cache.releaseLock('test:token', token as string)).toBe(true);
+    });
+
+    test('should throw when waiting times out with the error fallback', async () => {
+      const waiting = new CacheService(store, 'test', 60, {
+        stampede: { distributedLock: true, waitTimeout: 100, fallback: 'error' },
+      });
+      const token = await waiting.acquireLock('test:timeout');
+
+      await expect(waiting.getOrSet('test:timeout', async () => 'value')).rejects.toThrow(
+        LockTimeoutError
+      );
+
+      await waiting.releaseLock('test:timeout', token as string);
+    });
+  });
+
+  describe('L1 Cache', () => {
+    let tiered: CacheService;
+
+    beforeEach(() => {
+      tiered = new CacheService(store, 'test', 60, { l1: { ttl: 30 } });
+    });
+
+    afterEach(async () => {
+      await tiered.close();
+    });
+
+    test('should serve repeated reads from the L1 tier', async () => {
+      await store.setMany([['test:test:l1', JSON.stringify({ id: 1 })]], 60, []);
+
+      expect(await tiered.lookup('test:l1')).toEqual({ value: { id: 1 }, tier: 'l2' });
+      expect(await tiered.lookup('test:l1')).toEqual({ value: { id: 1 }, tier: 'l1' });
+      expect(tiered.getL1Stats()).toMatchObject({ hits: 1, size: 1 });
+    });
+
+    test('should evict L1 entries when another service invalidates them', async () => {
+      await tiered.set('test:l1:1', 'one', 60, ['l1-tag']);
+      await tiered.set('test:l1:2', 'two');
+
+      await cache.invalidateByTags(['l1-tag']);
+      await cache.delPattern('test:l1:*');
+
+      expect(await tiered.lookup('test:l1:1')).toEqual({ value: null, tier: null });
+      expect(await tiered.lookup('test:l1:2')).toEqual({ value: null, tier: null });
+    });
+
+    test('should evict L1 entries written by a process without an L1 tier', async () => {
+      // A second handle on the same data stands in for another process's connection
+      const writer = new CacheService(Object.create(store), 'test', 60, {
+        invalidationChannel: 'osmium:invalidate',
+      });
+      await tiered.set('test:l1:1', 'one');
+      await tiered.set('test:l1:2', 'two');
+      expect((await tiered.lookup('test:l1:1')).tier).toBe('l1');
+
+      await writer.set('test:l1:1', 'uno');
+      await writer.del('test:l1:2');
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(await tiered.lookup('test:l1:1')).toEqual({ value: 'uno', tier: 'l2' });
+      expect(await tiered.lookup('test:l1:2')).toEqual({ value: null, tier: null });
+    });
+
+    test('should keep the shared L1 tier until the last service closes', async () => {
+      const other = new CacheService(store, 'test', 60, { l1: { ttl: 30 } });
+      const acme = tiered.forTenant('acme');
+      await acme.set('key', 'value');
+      await acme.get('key');
+
+      await other.close();
+      expect((await acme.lookup('key')).tier).toBe('l1');
+      expect(other.getL1Stats()).toBeNull();
+
+      await tiered.close();
+      expect((await acme.lookup('key')).tier).toBe('l2');
+      expect(tiered.getL1Stats()).toBeNull();
+    });
+  });
+
   describe('Counter Operations', () => {
     test('should increment counter', async () => {
       const key = 'test:counter';
@@ -189,12 +525,90 @@ describe('CacheService', () => {
 
       expect(result).toEqual(largeValue);
     });
+
+    test('should store large values smaller than their JSON form', async () => {
+      const key = 'test:gzip';
+      const largeValue = { data: 'x'.repeat(5000) };
+
+      await cache.set(key, largeValue);
+      const [stored] = await store.getMany([`test:${key}`]);
+
+      expect(stored!.data.length).toBeLessThan(JSON.stringify(largeValue).length);
+      expect(await cache.get(key)).toEqual(largeValue);
+    });
+
+    test('should round-trip values with the brotli codec', async () => {
+      const brotli = new CacheService(store, 'test', 60, {
+        compression: { codec: 'brotli', threshold: 100 },
+      });
+      const value = { items: Array.from({ length: 50 }, (_, i) => ({ id: i, name: `item ${i}` })) };
+
+      await brotli.set('test:brotli', value);
+
+      expect(await brotli.get('test:brotli')).toEqual(value);
+      // A service configured with another codec can still decode it
+      expect(await cache.get('test:brotli')).toEqual(value);
+    });
+
+    test('should decode entries written in the legacy base64 format', async () => {
+      const value = { data: 'y'.repeat(2000) };
+      const legacy = `compressed:${Buffer.from(JSON.stringify(value)).toString('base64')}`;
+      await store.setMany([['test:test:legacy', legacy]], 60, []);
+
+      expect(await cache.get('test:legacy')).toEqual(value);
+    });
+  });
+
+  describe('Serialization', () => {
+    const value = {
+      at: new Date('2024-05-01T12:00:00.000Z'),
+      counts: new Map([['a', 1]]),
+      big: BigInt('9007199254740993'),
+      raw: Buffer.from([1, 2, 3]),
+    };
+
+    test('should round-trip rich types with the rich-json and msgpack serializers', async () => {
+      for (const serializer of ['rich-json', 'msgpack'] as const) {
+        const rich = new CacheService(store, 'test', 60, { serializer });
+        await rich.set(`rich:${serializer}`, value);
+
+        expect(await rich.get(`rich:${serializer}`)).toEqual(value);
+      }
+    });
+
+    test('should read entries written with other serializers', async () => {
+      const packed = new CacheService(store, 'test', 60, {
+        serializer: 'msgpack',
+        compression: { threshold: 10 },
+      });
+      await packed.set('mixed', { ...value, text: 'z'.repeat(200) });
+      await cache.set('plain', { id: 1 });
+
+      expect(await cache.get('mixed')).toEqual({ ...value, text: 'z'.repeat(200) });
+      expect(await packed.get('plain')).toEqual({ id: 1 });
+      expect(await raw('test:plain')).toBe('{"id":1}');
+    });
+
+    test('should reject entries written with an unknown serializer', async () => {
+      const custom = {
+        id: 200,
+        name: 'custom',
+        serialize: (input: any) => Buffer.from(String(input)),
+        deserialize: (data: Buffer) => data.toString(),
+      };
+      await new CacheService(store, 'test', 60, { serializer: custom }).set('custom', 'v');
+
+      expect(await cache.get('custom')).toBeNull();
+      expect(
+        await new CacheService(store, 'test', 60, { serializers: [custom] }).get('custom')
+      ).toBe('v');
+    });
   });
 
   describe('Namespace Isolation', () => {
     test('should isolate namespaces', async () => {
-      const cache1 = new CacheService(redis, 'namespace1');
-      const cache2 = new CacheService(redis, 'namespace2');
+      const cache1 = new CacheService(store, 'namespace1');
+      const cache2 = new CacheService(store, 'namespace2');
 
       await cache1.set('key', 'value1');
       await cache2.set('key', 'value2');
@@ -206,4 +620,140 @@ describe('CacheService', () => {
       await cache2.delPattern('*');
     });
   });
+
+  describe('Multi-Tenant', () => {
+    test('should scope keys and tags per tenant', async () => {
+      const acme = cache.forTenant('acme');
+      const globex = cache.forTenant('globex');
+
+      await acme.set('profile', { name: 'Acme' }, 60, ['profiles']);
+      await globex.set('profile', { name: 'Globex' }, 60, ['profiles']);
+
+      expect(await acme.get('profile')).toEqual({ name: 'Acme' });
+      expect(await cache.get('profile')).toBeNull();
+
+      await acme.invalidateByTags(['profiles']);
+
+      expect(await acme.get('profile')).toBeNull();
+      expect(await globex.get('profile')).toEqual({ name: 'Globex' });
+    });
+
+    test('should flush only the given tenant', async () => {
+      await cache.set('shared', 1);
+      await cache.forTenant('acme').set('key', 1);
+      await cache.forTenant('acme:eu').set('key', 1);
+      await cache.forTenant('acme*').set('key', 1);
+
+      expect(await cache.flushTenant('acme')).toBe(1);
+
+      expect(await cache.forTenant('acme').get('key')).toBeNull();
+      expect(await cache.forTenant('acme:eu').get('key')).toBe(1);
+      expect(await cache.forTenant('acme*').get('key')).toBe(1);
+      expect(await cache.get('shared')).toBe(1);
+    });
+
+    test('should refuse writes over the key quota', async () => {
+      const limited = new CacheService(store, 'test', 60, { tenantQuota: { maxKeys: 2 } });
+      const acme = limited.forTenant('acme');
+
+      expect(await acme.set('a', 1)).toBe(true);
+      expect(await acme.set('b', 2)).toBe(true);
+      expect(await acme.set('c', 3)).toBe(false);
+      // Overwriting an existing key does not need a new slot
+      expect(await acme.set('a', 10)).toBe(true);
+      expect(await acme.get('c')).toBeNull();
+      expect((await limited.getTenantUsage('acme')).keys).toBe(2);
+
+      await acme.del('b');
+
+      expect(await acme.set('c', 3)).toBe(true);
+    });
+
+    test('should refuse writes over the memory quota', async () => {
+      const limited = new CacheService(store, 'test', 60, { tenantQuota: { maxBytes: 100 } });
+      const acme = limited.forTenant('acme');
+
+      expect(await acme.set('small', 'x'.repeat(50))).toBe(true);
+      expect(await acme.set('large', 'x'.repeat(80))).toBe(false);
+      expect((await acme.getTenantUsage()).bytes).toBe(52);
+    });
+  });
+
+  describe('Versioning', () => {
+    let versioned: CacheService;
+
+    beforeEach(() => {
+      versioned = new CacheService(store, 'test', 60, {
+        versioning: { schemaVersion: 3, refreshInterval: 0 },
+      });
+    });
+
+    test('should embed the schema version and generation in keys', async () => {
+      await versioned.set('key', 'value');
+
+      expect(await raw('test:s3:g0:key')).toBe('"value"');
+    });
+
+    test('should make all entries unreachable after bumpVersion', async () => {
+      await versioned.set('a', 1, 60, ['numbers']);
+      await versioned.set('b', 2);
+
+      expect(await versioned.bumpVersion()).toBe(1);
+
+      expect(await versioned.get('a')).toBeNull();
+      expect(await versioned.get('b')).toBeNull();
+      expect(await versioned.invalidateByTags(['numbers'])).toBe(0);
+      // Old generations stay in Redis until their TTL passes
+      expect(await store.ttl('test:s3:g0:a')).toBeGreaterThan(0);
+    });
+
+    test('should not read entries written with another schema version', async () => {
+      const previous = new CacheService(store, 'test', 60, { versioning: { schemaVersion: 2 } });
+      await previous.set('key', { format: 'old' });
+
+      expect(await versioned.get('key')).toBeNull();
+    });
+
+    test('should see bumps from other instances after the refresh interval', async () => {
+      await versioned.set('key', 'value');
+
+      // Another process bumping the generation
+      await store.incr('test:version');
+
+      expect(await versioned.get('key')).toBeNull();
+    });
+
+    test('should stop counting older generations against the tenant quota', async () => {
+      const limited = new CacheService(store, 'test', 60, {
+        versioning: { refreshInterval: 0 },
+        tenantQuota: { maxKeys: 1 },
+      });
+      const acme = limited.forTenant('acme');
+      await acme.set('a', 1);
+      expect(await acme.set('b', 2)).toBe(false);
+
+      await acme.bumpVersion();
+
+      expect(await limited.getTenantUsage('acme')).toEqual({ keys: 0, bytes: 0 });
+      expect(await acme.set('b', 2)).toBe(true);
+      expect(await acme.get('b')).toBe(2);
+    });
+
+    test('should require the versioning option to bump', async () => {
+      await expect(cache.bumpVersion()).rejects.toThrow('versioning');
+    });
+  });
+
+  describe('Hash Tags', () => {
+    test('should wrap the namespace in a hash tag and still delete by pattern', async () => {
+      const tagged = new CacheService(store, 'test', 60, { hashTags: true });
+      await tagged.set('user:1', 'a', 60, ['users']);
+      await tagged.set('user:2', 'b');
+
+      expect(await raw('{test}:user:1')).toBe('"a"');
+      expect(await store.popTag('{test}:tag:users')).toEqual(['{test}:user:1']);
+      expect(await tagged.delPattern('user:*')).toBe(2);
+      expect(await tagged.get('user:2')).toBeNull();
+    });
+  });
 });
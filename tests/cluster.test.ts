@@ -0,0 +1,110 @@
+/**
+ * Periodic Osmium - Redis Cluster Helper Tests
+ */
+
+import { deleteKeys, getKeySlot, groupBySlot, scanKeys } from '../src/core/cluster';
+import { releaseQuota, reserveQuota } from '../src/core/tenant';
+
+/**
+ * Minimal stand-in for an ioredis Cluster: each master holds its own keys
+ * and DEL rejects keys from different slots, as Redis Cluster does
+ */
+function createFakeCluster(masters: string[][]) {
+  const nodes = masters.map((keys) => {
+    const store = new Set(keys);
+    return {
+      store,
+      scan: async (_cursor: string, _match: string, pattern: string) => {
+        const prefix = pattern.replace(/\*$/, '');
+        return ['0', [...store].filter((key) => key.startsWith(prefix))];
+      },
+    };
+  });
+
+  return {
+    isCluster: true,
+    nodes: () => nodes,
+    del: async (...keys: string[]) => {
+      if (new Set(keys.map(getKeySlot)).size > 1) {
+        throw new Error("CROSSSLOT Keys in request don't hash to the same slot");
+      }
+      for (const key of keys) {
+        nodes.forEach((node) => node.store.delete(key));
+      }
+      return keys.length;
+    },
+    stores: nodes.map((node) => node.store),
+  };
+}
+
+describe('Redis Cluster helpers', () => {
+  test('should compute Redis Cluster hash slots', () => {
+    expect(getKeySlot('foo')).toBe(12182);
+    expect(getKeySlot('hello')).toBe(866);
+    expect(getKeySlot('somekey')).toBe(11058);
+  });
+
+  test('should hash only the hash tag when present', () => {
+    expect(getKeySlot('{user1000}.following')).toBe(getKeySlot('user1000'));
+    expect(getKeySlot('{app}:a')).toBe(getKeySlot('{app}:b'));
+    // An empty tag hashes the whole key
+    expect(getKeySlot('{}foo')).not.toBe(getKeySlot('foo'));
+  });
+
+  test('should group keys by slot', () => {
+    const groups = groupBySlot(['{a}:1', 'foo', '{a}:2', 'hello']);
+
+    expect(groups).toHaveLength(3);
+    expect(groups).toContainEqual(['{a}:1', '{a}:2']);
+  });
+
+  test('should scan every master and delete without CROSSSLOT errors', async () => {
+    const cluster = createFakeCluster([
+      ['app:foo', 'app:hello', 'other:1'],
+      ['app:somekey', 'app:bar'],
+    ]);
+    const batches: string[][] = [];
+
+    const keys = await scanKeys(cluster as any, 'app:*');
+    await deleteKeys(cluster as any, keys, 100, async (batch) => {
+      batches.push(batch);
+    });
+
+    expect(keys.sort()).toEqual(['app:bar', 'app:foo', 'app:hello', 'app:somekey']);
+    expect(batches.length).toBeGreaterThan(1);
+    expect(cluster.stores.map((store) => [...store])).toEqual([['other:1'], []]);
+  });
+
+  test('should keep tenant quota keys in one slot with or without hash tags', async () => {
+    const calls: string[][] = [];
+    const cluster = {
+      isCluster: true,
+      evalsha: async (_sha: string, count: number, ...rest: unknown[]) => {
+        const keys = rest.slice(0, count) as string[];
+        if (new Set(keys.map(getKeySlot)).size > 1) {
+          throw new Error("CROSSSLOT Keys in request don't hash to the same slot");
+        }
+        calls.push(keys);
+        return 1;
+      },
+    };
+
+    const quota = { maxKeys: 10 };
+    expect(
+      await reserveQuota(cluster as any, 'app:tenant:acme', 'app:tenant:acme:k', 60, 1, quota)
+    );
+    expect(
+      await reserveQuota(cluster as any, '{app:tenant:acme}', '{app:tenant:acme}:k', 60, 1, quota)
+    );
+    await releaseQuota(cluster as any, 'app:tenant:acme', ['app:tenant:acme:k']);
+
+    expect(calls).toHaveLength(3);
+    // Still under the tenant's prefix, so flushTenant removes them
+    expect(calls[0].every((key) => key.startsWith('app:tenant:acme:'))).toBe(true);
+    expect(calls[1]).toEqual([
+      '{app:tenant:acme}:quota:keys',
+      '{app:tenant:acme}:quota:sizes',
+      '{app:tenant:acme}:quota:bytes',
+    ]);
+  });
+});
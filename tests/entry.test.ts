@@ -0,0 +1,48 @@
+/**
+ * Periodic Osmium - Cache Entry Tests
+ */
+
+import {
+  canServeOnError,
+  createEntry,
+  getEntryState,
+  getStorageTTL,
+  toEntry,
+} from '../src/core/entry';
+
+describe('Cache entries', () => {
+  const now = 1_700_000_000_000;
+
+  test('should be fresh until ttl elapses', () => {
+    const entry = createEntry({ id: 1 }, 60, {}, now);
+
+    expect(getEntryState(entry, now + 59_000)).toBe('fresh');
+    expect(getEntryState(entry, now + 60_000)).toBe('expired');
+  });
+
+  test('should be stale within the stale-while-revalidate window', () => {
+    const entry = createEntry({ id: 1 }, 60, { staleWhileRevalidate: 30 }, now);
+
+    expect(getEntryState(entry, now + 75_000)).toBe('stale');
+    expect(getEntryState(entry, now + 90_000)).toBe('expired');
+  });
+
+  test('should serve on error within the stale-if-error window', () => {
+    const entry = createEntry({ id: 1 }, 60, { staleIfError: 300 }, now);
+
+    expect(canServeOnError(entry, now + 200_000)).toBe(true);
+    expect(canServeOnError(entry, now + 360_000)).toBe(false);
+  });
+
+  test('should keep entries in Redis for the longest stale window', () => {
+    expect(getStorageTTL(60)).toBe(60);
+    expect(getStorageTTL(60, { staleWhileRevalidate: 30, staleIfError: 300 })).toBe(360);
+  });
+
+  test('should treat legacy raw values as fresh', () => {
+    const entry = toEntry([{ id: 1 }]);
+
+    expect(entry.data).toEqual([{ id: 1 }]);
+    expect(getEntryState(entry)).toBe('fresh');
+  });
+});
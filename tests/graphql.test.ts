@@ -0,0 +1,295 @@
+/**
+ * Periodic Osmium - GraphQL Adapter Tests
+ */
+
+import http from 'http';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { CacheService } from '../src/core/cache';
+import { MemoryStore } from '../src/core/memory-store';
+import {
+  collectEntityTags,
+  normalizeDocument,
+  parseOperation,
+  resolveCacheHint,
+} from '../src/core/graphql';
+import { cacheResolver, graphqlCacheMiddleware } from '../src/adapters/graphql';
+import { GraphQLCacheConfig } from '../src/core/types';
+
+describe('GraphQL document scanner', () => {
+  test('should read operations with fragments, aliases and hints', () => {
+    const operation = parseOperation(
+      `
+      query Feed($first: Int = 10) {
+        feed(first: $first) @cacheControl(maxAge: 30) {
+          ...PostFields
+          ... on Post { author { name } }
+        }
+        viewer: me @cacheControl(scope: PRIVATE) { id }
+      }
+      fragment PostFields on Post { id, title # comment
+      }
+      mutation Like { like(id: "1") { id } }
+      `,
+      'Feed'
+    );
+
+    expect(operation.type).toBe('query');
+    expect(operation.rootFields.map((field) => field.responseKey)).toEqual(['feed', 'viewer']);
+    expect(operation.fields.map((field) => field.path)).toEqual([
+      'feed',
+      'feed.id',
+      'feed.title',
+      'feed.author',
+      'feed.author.name',
+      'me',
+      'me.id',
+    ]);
+    expect(operation.fields[0].hint).toEqual({ maxAge: 30 });
+    expect(resolveCacheHint(operation.fields, { 'feed.author': { maxAge: 5 } }, true)).toEqual({
+      maxAge: 5,
+      scope: 'PRIVATE',
+    });
+    // Directives are ignored unless trusted
+    expect(resolveCacheHint(operation.fields, { 'feed.author': { maxAge: 5 } })).toEqual({
+      maxAge: 5,
+    });
+  });
+
+  test('should never let directives loosen server hints', () => {
+    const operation = parseOperation('{ me @cacheControl(scope: PUBLIC, maxAge: 600) { email } }');
+
+    expect(
+      resolveCacheHint(operation.fields, { me: { maxAge: 10, scope: 'PRIVATE' } }, true)
+    ).toEqual({ maxAge: 10, scope: 'PRIVATE' });
+  });
+
+  test('should require an operation name for documents with several operations', () => {
+    expect(parseOperation('{ a }').type).toBe('query');
+    expect(() => parseOperation('query A { a } query B { b }')).toThrow('operationName');
+    expect(() => parseOperation('{ a(x: ) }')).toThrow('Invalid GraphQL document');
+  });
+
+  test('should normalize formatting and comments', () => {
+    expect(normalizeDocument('query {\n  user(id: "a b") { id } # me\n}')).toBe(
+      normalizeDocument('query{user(id:"a b"){id}}')
+    );
+  });
+
+  test('should collect entity tags at any depth', () => {
+    const tags = collectEntityTags({
+      post: { __typename: 'Post', id: 1, author: { __typename: 'User', id: 'u1' } },
+      list: [{ __typename: 'Post', id: 1 }, { id: 2 }],
+    });
+
+    expect(tags).toEqual(['Post:1', 'User:u1']);
+  });
+});
+
+describe('graphqlCacheMiddleware', () => {
+  let store: MemoryStore;
+  let server: http.Server;
+  let port: number;
+  let calls: number;
+  let posts: Record<string, string>;
+
+  /** Minimal GraphQL handler answering posts, post, me and updatePost */
+  const handler = (req: express.Request, res: express.Response) => {
+    calls++;
+    const { query, variables = {} } = req.body;
+    if (query.includes('broken')) {
+      return res.json({ data: null, errors: [{ message: 'broken' }] });
+    }
+    if (query.includes('updatePost')) {
+      posts[variables.id] = variables.title;
+      return res.json({ data: { updatePost: { __typename: 'Post', id: variables.id } } });
+    }
+    if (/\bme\b/.test(query)) {
+      return res.json({ data: { me: { id: (req as any).user?.id } } });
+    }
+    return res.json({
+      data: {
+        post: { __typename: 'Post', id: variables.id, title: posts[variables.id], calls },
+      },
+    });
+  };
+
+  const start = async (config: GraphQLCacheConfig) => {
+    const app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      const user = req.get('x-user');
+      (req as any).user = user ? { id: user } : undefined;
+      next();
+    });
+    app.post('/graphql', graphqlCacheMiddleware(store, config), handler);
+    server = http.createServer(app);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    port = (server.address() as AddressInfo).port;
+  };
+
+  const send = (body: object, user?: string, headers: Record<string, string> = {}) =>
+    new Promise<{ cache?: string; body: any }>((resolve, reject) => {
+      const payload = JSON.stringify(body);
+      const req = http.request(
+        {
+          port,
+          path: '/graphql',
+          method: 'POST',
+          headers: {
+            'content-type': 'application/json',
+            ...(user ? { 'x-user': user } : {}),
+            ...headers,
+          },
+        },
+        (res) => {
+          let data = '';
+          res.on('data', (chunk) => (data += chunk));
+          res.on('end', () =>
+            resolve({ cache: res.headers['x-cache'] as string, body: JSON.parse(data) })
+          );
+        }
+      );
+      req.on('error', reject);
+      req.end(payload);
+    });
+
+  const postQuery = (id: string) => ({
+    query: 'query Post($id: ID!) { post(id: $id) { __typename id title calls } }',
+    variables: { id },
+  });
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    calls = 0;
+    posts = { '1': 'Hello' };
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test('should cache queries by normalized document and variables', async () => {
+    await start({ ttl: 60 });
+
+    expect((await send(postQuery('1'))).cache).toBe('MISS');
+    const hit = await send({
+      query: 'query Post($id: ID!) {\n  post(id: $id) { __typename id title calls }\n}',
+      variables: { id: '1' },
+    });
+
+    expect(hit.cache).toBe('HIT');
+    expect(hit.body.data.post.calls).toBe(1);
+    expect((await send(postQuery('2'))).cache).toBe('MISS');
+    expect(calls).toBe(2);
+  });
+
+  test('should invalidate entities returned by mutations', async () => {
+    await start({ ttl: 60 });
+    await send(postQuery('1'));
+
+    const mutation = await send({
+      query:
+        'mutation Update($id: ID!, $title: String) { updatePost(id: $id, title: $title) { __typename id } }',
+      variables: { id: '1', title: 'Updated' },
+    });
+    expect(mutation.cache).toBeUndefined();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const refreshed = await send(postQuery('1'));
+    expect(refreshed.cache).toBe('MISS');
+    expect(refreshed.body.data.post.title).toBe('Updated');
+  });
+
+  test('should invalidate configured tags of mutation fields', async () => {
+    await start({
+      ttl: 60,
+      entityTags: false,
+      tags: (req) => [`Post:${req.body.variables?.id}`],
+      invalidate: { updatePost: ['Post:{response.id}'] },
+    });
+    await send(postQuery('1'));
+    await send(postQuery('2'));
+
+    await send({
+      query: 'mutation { updatePost(id: "1") { __typename id } }',
+      variables: { id: '1' },
+    });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect((await send(postQuery('1'))).cache).toBe('MISS');
+    expect((await send(postQuery('2'))).cache).toBe('HIT');
+  });
+
+  test('should honor maxAge hints and never cache results with errors', async () => {
+    await start({ ttl: 60, hints: { post: { maxAge: 0 } } });
+
+    expect((await send(postQuery('1'))).cache).toBeUndefined();
+    expect((await send({ query: '{ broken }' })).cache).toBe('MISS');
+    expect((await send({ query: '{ broken }' })).cache).toBe('MISS');
+  });
+
+  test('should cache private results per user and skip anonymous requests', async () => {
+    await start({ ttl: 60, queryDirectives: true });
+    const query = { query: '{ me @cacheControl(scope: PRIVATE) { id } }' };
+
+    expect((await send(query, 'a')).cache).toBe('MISS');
+    expect((await send(query, 'b')).cache).toBe('MISS');
+    const hit = await send(query, 'a');
+    expect(hit.cache).toBe('HIT');
+    expect(hit.body.data.me.id).toBe('a');
+    expect((await send(query)).cache).toBeUndefined();
+  });
+
+  test('should not let a query directive make a private field public', async () => {
+    await start({ ttl: 60, hints: { me: { scope: 'PRIVATE' } } });
+    const query = { query: '{ me @cacheControl(scope: PUBLIC) { id } }' };
+
+    expect((await send(query, 'alice')).cache).toBe('MISS');
+    const other = await send(query, 'bob');
+    expect(other.cache).toBe('MISS');
+    expect(other.body.data.me.id).toBe('bob');
+  });
+
+  test('should not cache authorized queries in the public scope', async () => {
+    const authorization = { authorization: 'Bearer token' };
+    await start({ ttl: 60 });
+
+    expect((await send(postQuery('1'), undefined, authorization)).cache).toBeUndefined();
+    expect((await send(postQuery('1'), 'a', authorization)).cache).toBeUndefined();
+    expect((await send(postQuery('1'))).cache).toBe('MISS');
+    expect(calls).toBe(3);
+  });
+
+  test('should partition authorized queries by user in the user scope', async () => {
+    const authorization = { authorization: 'Bearer token' };
+    await start({ ttl: 60, scope: 'user' });
+
+    expect((await send(postQuery('1'), 'a', authorization)).cache).toBe('MISS');
+    expect((await send(postQuery('1'), 'a', authorization)).cache).toBe('HIT');
+    expect((await send(postQuery('1'), 'b', authorization)).cache).toBe('MISS');
+    expect((await send(postQuery('1'), undefined, authorization)).cache).toBeUndefined();
+  });
+});
+
+describe('cacheResolver', () => {
+  test('should cache root fields by arguments and nested fields by parent id', async () => {
+    const cache = new CacheService(new MemoryStore(), 'app', 60);
+    const load = jest.fn(async (_parent: any, args: { id: string }) => ({ id: args.id }));
+    const product = cacheResolver(cache, load, { tags: (_parent, args) => [`Product:${args.id}`] });
+    const info = { fieldName: 'product', parentType: { name: 'Query' } };
+
+    await product(null, { id: '1' }, {}, info);
+    expect(await product(null, { id: '1' }, {}, info)).toEqual({ id: '1' });
+    expect(load).toHaveBeenCalledTimes(1);
+
+    await cache.invalidateByTags(['Product:1']);
+    await product(null, { id: '1' }, {}, info);
+    expect(load).toHaveBeenCalledTimes(2);
+
+    const nested = { fieldName: 'related', parentType: { name: 'Product' } };
+    await product({}, { id: '1' }, {}, nested);
+    await product({}, { id: '1' }, {}, nested);
+    expect(load).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Periodic Osmium - HTTP Caching Header Tests
+ */
+
+import {
+  createETag,
+  formatCacheControl,
+  isNotModified,
+  parseCacheControl,
+} from '../src/core/http-cache';
+
+describe('HTTP caching headers', () => {
+  const body = Buffer.from('{"id":1}');
+  const etag = createETag(body);
+  const lastModified = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+
+  test('should compute a stable strong ETag', () => {
+    expect(etag).toBe(createETag(Buffer.from('{"id":1}')));
+    expect(etag).not.toBe(createETag(Buffer.from('{"id":2}')));
+    expect(etag).toMatch(/^"8-[A-Za-z0-9+/]+"$/);
+  });
+
+  test('should match If-None-Match lists and weak tags', () => {
+    expect(isNotModified({ 'if-none-match': etag }, { etag })).toBe(true);
+    expect(isNotModified({ 'if-none-match': `"other", W/${etag}` }, { etag })).toBe(true);
+    expect(isNotModified({ 'if-none-match': '*' }, { etag })).toBe(true);
+    expect(isNotModified({ 'if-none-match': '"other"' }, { etag })).toBe(false);
+  });
+
+  test('should compare If-Modified-Since with second precision', () => {
+    const validators = { etag, lastModified: lastModified + 500 };
+
+    expect(
+      isNotModified({ 'if-modified-since': 'Wed, 21 Oct 2015 07:28:00 GMT' }, validators)
+    ).toBe(true);
+    expect(
+      isNotModified({ 'if-modified-since': 'Wed, 21 Oct 2015 07:27:59 GMT' }, validators)
+    ).toBe(false);
+    expect(isNotModified({ 'if-modified-since': 'not a date' }, validators)).toBe(false);
+  });
+
+  test('should let If-None-Match take precedence over If-Modified-Since', () => {
+    const headers = {
+      'if-none-match': '"other"',
+      'if-modified-since': 'Wed, 21 Oct 2015 07:28:00 GMT',
+    };
+
+    expect(isNotModified(headers, { etag, lastModified })).toBe(false);
+  });
+
+  test('should parse Cache-Control directives case-insensitively', () => {
+    expect(
+      parseCacheControl({ 'Cache-Control': 'Private, MAX-AGE=60, no-cache="Set-Cookie"' })
+    ).toEqual({
+      private: '',
+      'max-age': '60',
+      'no-cache': 'Set-Cookie',
+    });
+    expect(parseCacheControl({ 'Cache-Control': ['no-store', 's-maxage=5'] })).toEqual({
+      'no-store': '',
+      's-maxage': '5',
+    });
+    expect(parseCacheControl({})).toEqual({});
+  });
+
+  test('should format Cache-Control from the remaining lifetime and stale windows', () => {
+    expect(formatCacheControl({}, 59.2)).toBe('public, max-age=60');
+    expect(formatCacheControl({ visibility: 'private' }, -3)).toBe('private, max-age=0');
+    expect(
+      formatCacheControl({ maxAge: 10, sMaxAge: 300 }, 60, {
+        staleWhileRevalidate: 30,
+        staleIfError: 600,
+      })
+    ).toBe('public, max-age=10, s-maxage=300, stale-while-revalidate=30, stale-if-error=600');
+  });
+});
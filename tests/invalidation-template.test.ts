@@ -0,0 +1,46 @@
+/**
+ * Periodic Osmium - Invalidation Template Tests
+ */
+
+import { TemplateError, compileTemplate } from '../src/core/invalidation-template';
+
+describe('Invalidation templates', () => {
+  const context = {
+    params: { id: '42' },
+    query: { page: 2 },
+    body: { orgId: 'acme', owner: { id: 7 } },
+    headers: { 'x-region': 'eu' },
+    user: { id: 'u1' },
+    response: { id: 99 },
+  };
+
+  test('should resolve placeholders from the request and response', () => {
+    expect(compileTemplate('user:{params.id}').resolve(context)).toBe('user:42');
+    expect(compileTemplate('org:{body.orgId}:{body.owner.id}').resolve(context)).toBe('org:acme:7');
+    expect(compileTemplate('item:{response.id}').resolve(context)).toBe('item:99');
+    expect(compileTemplate('{headers.X-Region}:{query.page}').resolve(context)).toBe('eu:2');
+    expect(compileTemplate('users').resolve({})).toBe('users');
+  });
+
+  test('should reject malformed placeholders when compiled', () => {
+    expect(() => compileTemplate('user:{id}')).toThrow(TemplateError);
+    expect(() => compileTemplate('user:{parms.id}')).toThrow('Invalid placeholder "{parms.id}"');
+    expect(() => compileTemplate('user:{params.}')).toThrow(TemplateError);
+  });
+
+  test('should throw instead of resolving a missing or non-scalar value', () => {
+    const template = compileTemplate('user:{params.userId}');
+
+    expect(() => template.resolve(context)).toThrow(
+      'Missing value for "{params.userId}" in invalidation template "user:{params.userId}"'
+    );
+    expect(() => compileTemplate('org:{body.owner}').resolve(context)).toThrow(TemplateError);
+    expect(() => compileTemplate('item:{response.id}').resolve({})).toThrow(TemplateError);
+  });
+
+  test('should escape glob characters in pattern values', () => {
+    const pattern = compileTemplate('user:{params.id}:*', true);
+
+    expect(pattern.resolve({ params: { id: 'a*' } })).toBe('user:a\\*:*');
+  });
+});
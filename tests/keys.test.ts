@@ -0,0 +1,59 @@
+/**
+ * Periodic Osmium - Typed Key Tests
+ */
+
+import { defineKey, runValidator } from '../src/core/keys';
+import { CacheKey } from '../src/core/types';
+
+interface User {
+  id: number;
+  name: string;
+}
+
+describe('Typed keys', () => {
+  test('should fill in template placeholders', () => {
+    const postsKey = defineKey<User[], 'user:{id}:posts:{page}'>('user:{id}:posts:{page}');
+
+    expect(postsKey.build({ id: 42, page: 2 }).key).toBe('user:42:posts:2');
+  });
+
+  test('should throw when a placeholder has no value', () => {
+    const userKey = defineKey<User>()('user:{id}');
+
+    // @ts-expect-error - 'id' is required
+    expect(() => userKey.build({})).toThrow('Missing value for "{id}"');
+  });
+
+  test('should infer placeholders when the value type is given', () => {
+    const userKey = defineKey<User>()('user:{id}');
+    const key: CacheKey<User> = userKey.build({ id: 1 });
+
+    expect(key.key).toBe('user:1');
+    // @ts-expect-error - unknown placeholder
+    expect(() => userKey.build({ nope: 1 })).toThrow('Missing value for "{id}"');
+    // @ts-expect-error - the template type would fall back to string
+    defineKey<User>('user:{id}');
+  });
+
+  test('should carry the template validator on built keys', () => {
+    const validate = (value: unknown) => value as User;
+    const userKey = defineKey('user:{id}', validate);
+
+    expect(userKey.build({ id: 1 })).toEqual({ key: 'user:1', validate });
+  });
+
+  test('should run function and schema validators', () => {
+    const schema = {
+      parse: (value: unknown) => {
+        if (typeof value !== 'number') {
+          throw new Error('Expected a number');
+        }
+        return value * 2;
+      },
+    };
+
+    expect(runValidator(schema, 2)).toBe(4);
+    expect(runValidator((value) => String(value), 2)).toBe('2');
+    expect(() => runValidator(schema, 'x')).toThrow('Expected a number');
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Periodic Osmium - Local Cache Tests
+ */
+
+import { LocalCache, globToRegExp } from '../src/core/local-cache';
+
+describe('LocalCache', () => {
+  test('should evict the least recently used entry when full', () => {
+    const local = new LocalCache(2, 60);
+
+    local.set('a', '1');
+    local.set('b', '2');
+    local.get('a');
+    local.set('c', '3');
+
+    expect(local.get('a')).toBe('1');
+    expect(local.get('b')).toBeUndefined();
+    expect(local.stats().evictions).toBe(1);
+  });
+
+  test('should cap entry lifetime at the L1 ttl', () => {
+    jest.useFakeTimers();
+    const local = new LocalCache(10, 5);
+
+    local.set('a', '1', 3600);
+    jest.advanceTimersByTime(5000);
+
+    expect(local.get('a')).toBeUndefined();
+    jest.useRealTimers();
+  });
+
+  test('should delete entries matching a glob pattern', () => {
+    const local = new LocalCache();
+
+    local.set('app:list:1', '1');
+    local.set('app:list:2', '2');
+    local.set('app:item:1', '3');
+    local.deleteMatching('app:list:*');
+
+    expect(local.stats().size).toBe(1);
+    expect(local.get('app:item:1')).toBe('3');
+  });
+
+  test('should translate Redis glob syntax', () => {
+    expect(globToRegExp('user:?').test('user:1')).toBe(true);
+    expect(globToRegExp('user:[ab]*').test('user:bob')).toBe(true);
+    expect(globToRegExp('user:[^ab]*').test('user:bob')).toBe(false);
+    expect(globToRegExp('a.b\\*').test('a.b*')).toBe(true);
+    expect(globToRegExp('a.b').test('axb')).toBe(false);
+  });
+});
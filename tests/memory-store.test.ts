@@ -0,0 +1,111 @@
+/**
+ * Periodic Osmium - Memory Store Tests
+ */
+
+import { MemoryStore } from '../src/core/memory-store';
+import { CacheService } from '../src/core/cache';
+
+describe('MemoryStore', () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    store = new MemoryStore();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should expire keys after their TTL', async () => {
+    await store.setMany([['a', 'value']], 10, []);
+
+    expect(await store.ttl('a')).toBe(10);
+    jest.advanceTimersByTime(10000);
+
+    expect(await store.exists('a')).toBe(false);
+    expect(await store.ttl('a')).toBe(-2);
+    expect(await store.getMany(['a'])).toEqual([null]);
+  });
+
+  test('should keep tag sets alive as long as their longest-lived member', async () => {
+    await store.setMany([['long', 'value']], 600, ['tag']);
+    await store.setMany([['short', 'value']], 5, ['tag']);
+
+    expect(await store.ttl('tag')).toBe(600);
+    jest.advanceTimersByTime(5000);
+
+    expect(await store.sweepTags('tag')).toBe(1);
+    expect(await store.popTag('tag')).toEqual(['long']);
+    expect(await store.exists('tag')).toBe(false);
+  });
+
+  test('should leave sets rejected by the skip predicate out of a sweep', async () => {
+    await store.setMany([['entry', 'value']], 60, ['tag:a', 'tag:b']);
+    await store.del(['entry']);
+
+    expect(await store.sweepTags('tag:*', 100, (tagKey) => tagKey === 'tag:b')).toBe(1);
+    expect(await store.exists('tag:a')).toBe(false);
+    expect(await store.popTag('tag:b')).toEqual(['entry']);
+  });
+
+  test('should increment counters like INCR', async () => {
+    expect(await store.incr('counter')).toBe(1);
+    expect(await store.incr('counter')).toBe(2);
+    expect(await store.getCounter('counter')).toBe(2);
+    expect(await store.ttl('counter')).toBe(-1);
+
+    await store.setMany([['text', 'abc']], 60, []);
+    await expect(store.incr('text')).rejects.toThrow('not an integer');
+  });
+
+  test('should scan with Redis glob patterns', async () => {
+    await store.setMany(
+      [
+        ['app:user:1', '1'],
+        ['app:user:2', '2'],
+        ['app:post:1', '3'],
+      ],
+      60,
+      []
+    );
+
+    expect((await store.scan('app:user:*')).sort()).toEqual(['app:user:1', 'app:user:2']);
+    expect(await store.scan('app:[p]ost:?')).toEqual(['app:post:1']);
+  });
+
+  test('should only release locks held with the same token', async () => {
+    expect(await store.setIfAbsent('lock', 'a', 1000)).toBe(true);
+    expect(await store.setIfAbsent('lock', 'b', 1000)).toBe(false);
+    expect(await store.deleteIfEquals('lock', 'b')).toBe(false);
+    expect(await store.deleteIfEquals('lock', 'a')).toBe(true);
+
+    await store.setIfAbsent('lock', 'c', 1000);
+    jest.advanceTimersByTime(1000);
+    expect(await store.setIfAbsent('lock', 'd', 1000)).toBe(true);
+  });
+
+  test('should enforce tenant quotas and stop counting expired keys', async () => {
+    const quota = { maxKeys: 2 };
+
+    expect(await store.reserveQuota('t', 'a', 10, 5, quota)).toBe(true);
+    expect(await store.reserveQuota('t', 'b', 60, 5, quota)).toBe(true);
+    expect(await store.reserveQuota('t', 'c', 60, 5, quota)).toBe(false);
+
+    jest.advanceTimersByTime(10000);
+    expect(await store.getQuotaUsage('t')).toEqual({ keys: 1, bytes: 5 });
+    expect(await store.reserveQuota('t', 'c', 60, 5, quota)).toBe(true);
+  });
+
+  test('should back a CacheService without Redis', async () => {
+    const cache = new CacheService(store, 'app', 60, { l1: { ttl: 30 } });
+
+    await cache.set('user:1', { id: 1 }, 60, ['users']);
+    expect(await cache.get('user:1')).toEqual({ id: 1 });
+    expect(await cache.invalidateByTags(['users'])).toBe(1);
+    expect(await cache.get('user:1')).toBeNull();
+    expect(await cache.healthCheck()).toBe(true);
+
+    await cache.close();
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Periodic Osmium - Metrics Tests
+ */
+
+import { CacheMetrics } from '../src/core/metrics';
+
+describe('CacheMetrics', () => {
+  let metrics: CacheMetrics;
+
+  beforeEach(() => {
+    metrics = new CacheMetrics();
+  });
+
+  test('should render counters in Prometheus text format', () => {
+    metrics.recordRequest('/users/:id', 'app', 'hit');
+    metrics.recordRequest('/users/:id', 'app', 'hit');
+    metrics.recordRequest('/users/:id', 'app', 'miss');
+
+    const output = metrics.render();
+
+    expect(output).toContain('# TYPE osmium_cache_requests_total counter');
+    expect(output).toContain(
+      'osmium_cache_requests_total{route="/users/:id",namespace="app",result="hit"} 2'
+    );
+    expect(output).toContain(
+      'osmium_cache_requests_total{route="/users/:id",namespace="app",result="miss"} 1'
+    );
+  });
+
+  test('should render cumulative histogram buckets', () => {
+    metrics.observeRedis('get', 'app', 0.002);
+    metrics.observeRedis('get', 'app', 0.2);
+
+    const output = metrics.render();
+
+    expect(output).toContain(
+      'osmium_redis_operation_duration_seconds_bucket{operation="get",namespace="app",le="0.001"} 0'
+    );
+    expect(output).toContain(
+      'osmium_redis_operation_duration_seconds_bucket{operation="get",namespace="app",le="0.0025"} 1'
+    );
+    expect(output).toContain(
+      'osmium_redis_operation_duration_seconds_bucket{operation="get",namespace="app",le="+Inf"} 2'
+    );
+    expect(output).toContain(
+      'osmium_redis_operation_duration_seconds_count{operation="get",namespace="app"} 2'
+    );
+  });
+
+  test('should sum invalidated keys', () => {
+    metrics.recordInvalidation('app', 'tags', 3);
+    metrics.recordInvalidation('app', 'tags', 4);
+
+    expect(metrics.invalidatedKeys.get({ namespace: 'app', method: 'tags' })).toBe(7);
+  });
+
+  test('should escape label values and honor the prefix', () => {
+    const custom = new CacheMetrics({ prefix: 'api_' });
+    custom.recordRequest('/say/"hi"', 'app', 'hit');
+
+    expect(custom.render()).toContain('api_cache_requests_total{route="/say/\\"hi\\""');
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Periodic Osmium - Cache Partition Tests
+ */
+
+import { MemoryStore } from '../src/core/memory-store';
+import { CacheEngine, CacheRequest } from '../src/core/engine';
+import { AutoCacheConfig } from '../src/core/types';
+
+const request = (overrides: Partial<CacheRequest> = {}): CacheRequest => ({
+  req: {},
+  res: {},
+  method: 'GET',
+  path: '/dashboard',
+  url: '/dashboard',
+  route: '/dashboard',
+  query: {},
+  headers: {},
+  ...overrides,
+});
+
+const json = Buffer.from('{"ok":true}');
+
+describe('Cache partitions', () => {
+  let store: MemoryStore;
+
+  const createEngine = (autoCache: AutoCacheConfig<any>) =>
+    new CacheEngine(store, { ttl: 60, autoCache });
+
+  beforeEach(() => {
+    store = new MemoryStore();
+  });
+
+  test('should not cache public requests carrying credentials unless allowed', () => {
+    const authorized = request({ headers: { authorization: 'Bearer token' } });
+
+    expect(createEngine({}).getAction(request())).toBe('cache');
+    expect(createEngine({}).getAction(authorized)).toBeNull();
+    expect(createEngine({ shareAuthorized: true }).getAction(authorized)).toBe('cache');
+  });
+
+  test('should key user entries by identity and refuse requests without one', () => {
+    const engine = createEngine({ scope: 'user' });
+
+    expect(engine.getCacheKey(request({ user: { id: 42 } }))).toBe('GET:/dashboard:user:42');
+    expect(engine.getAction(request({ user: { id: 42 } }))).toBe('cache');
+    expect(engine.getAction(request({ user: { name: 'no id' } }))).toBeNull();
+    expect(engine.getAction(request())).toBeNull();
+
+    // includeAuth is an alias, and also guards users without an id
+    expect(createEngine({ includeAuth: true }).getAction(request({ user: {} }))).toBeNull();
+  });
+
+  test('should partition custom keys with a pluggable identity', () => {
+    const engine = createEngine({
+      scope: 'user',
+      keyGenerator: () => 'dashboard',
+      identity: (req) => req.claims?.sub,
+    });
+
+    expect(engine.getCacheKey(request({ req: { claims: { sub: 'u-1' } } }))).toBe(
+      'dashboard:user:u-1'
+    );
+    expect(engine.getAction(request({ user: { id: 42 } }))).toBeNull();
+  });
+
+  test('should hash session ids in keys', () => {
+    const engine = createEngine({ scope: 'session' });
+    const key = engine.getCacheKey(request({ sessionId: 'secret-session' }));
+
+    expect(key).toMatch(/^GET:\/dashboard:session:[0-9a-f]{32}$/);
+    expect(key).not.toContain('secret-session');
+    expect(engine.getAction(request())).toBeNull();
+  });
+
+  test('should share one anonymous partition only for requests without credentials', () => {
+    const engine = createEngine({ scope: 'user', anonymous: true });
+
+    expect(engine.getCacheKey(request())).toBe('GET:/dashboard:anon');
+    expect(engine.getAction(request())).toBe('cache');
+    expect(engine.getAction(request({ headers: { authorization: 'Bearer token' } }))).toBeNull();
+  });
+
+  test('should not store responses that set cookies', () => {
+    const engine = createEngine({});
+
+    expect(engine.capture(200, { 'content-type': 'application/json' }, json)).not.toBeNull();
+    expect(engine.capture(200, { 'Set-Cookie': ['sid=1'] }, json)).toBeNull();
+  });
+
+  test('should invalidate every entry of a user or a session', async () => {
+    const fill = async (engine: CacheEngine, view: CacheRequest) => {
+      const scope = engine.scope(view.req);
+      const key = engine.getCacheKey(view);
+      const lookup = await engine.lookup(view, scope, key);
+      if (lookup.status === 'miss') {
+        lookup.fill.store(engine.capture(200, {}, json)!);
+        lookup.fill.done();
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return key;
+    };
+    const users = createEngine({ scope: 'user' });
+    const sessions = createEngine({ scope: 'session' });
+
+    const own = await fill(users, request({ user: { id: 42 } }));
+    const other = await fill(users, request({ path: '/profile', user: { id: 42 } }));
+    const someoneElse = await fill(users, request({ user: { id: 7 } }));
+    const session = await fill(sessions, request({ sessionId: 'sess-1' }));
+
+    expect(await users.cache.invalidateUser(42)).toBe(2);
+    expect(await users.cache.exists(own)).toBe(false);
+    expect(await users.cache.exists(other)).toBe(false);
+    expect(await users.cache.exists(someoneElse)).toBe(true);
+
+    expect(await sessions.cache.invalidateSession('sess-1')).toBe(1);
+    expect(await sessions.cache.exists(session)).toBe(false);
+  });
+});
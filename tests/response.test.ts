@@ -0,0 +1,85 @@
+/**
+ * Periodic Osmium - Cached Response Tests
+ */
+
+import { createEntry } from '../src/core/entry';
+import { createCachedResponse, toCachedResponse } from '../src/core/response';
+
+describe('Cached responses', () => {
+  test('should keep only whitelisted headers', () => {
+    const response = createCachedResponse(
+      201,
+      {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'set-cookie': ['session=abc'],
+        'x-cache': 'MISS',
+      },
+      Buffer.from('created')
+    );
+
+    expect(response.status).toBe(201);
+    expect(response.headers).toEqual({ 'content-type': 'text/plain; charset=utf-8' });
+  });
+
+  test('should honor a custom header whitelist', () => {
+    const response = createCachedResponse(
+      200,
+      { 'x-version': 3, link: ['</a>; rel="next"', '</b>; rel="last"'] },
+      Buffer.from(''),
+      ['X-Version', 'link']
+    );
+
+    expect(response.headers).toEqual({
+      'x-version': '3',
+      link: ['</a>; rel="next"', '</b>; rel="last"'],
+    });
+  });
+
+  test('should store text bodies as utf8 and binary bodies as base64', () => {
+    const text = createCachedResponse(200, {}, Buffer.from('héllo'));
+    const binary = createCachedResponse(200, {}, Buffer.from([0xff, 0x00, 0xfe]));
+
+    expect(text).toMatchObject({ body: 'héllo', encoding: 'utf8' });
+    expect(binary.encoding).toBe('base64');
+    expect(Buffer.from(binary.body, 'base64')).toEqual(Buffer.from([0xff, 0x00, 0xfe]));
+  });
+
+  test('should return the response held by an entry', () => {
+    const response = createCachedResponse(200, {}, Buffer.from('ok'));
+    const entry = { ...createEntry(response, 60), kind: 'response' as const };
+
+    expect(toCachedResponse(entry)).toBe(response);
+  });
+
+  test('should replay JSON payloads stored by earlier versions', () => {
+    const entry = createEntry({ id: 1 }, 60, {}, 1_700_000_000_000);
+    const response = toCachedResponse(entry);
+
+    expect(response).toMatchObject({
+      status: 200,
+      headers: { 'content-type': 'application/json; charset=utf-8' },
+      body: '{"id":1}',
+      encoding: 'utf8',
+      lastModified: 1_700_000_000_000,
+    });
+    expect(response.etag).toMatch(/^"8-/);
+  });
+
+  test('should keep a strong ETag and Last-Modified set by the controller', () => {
+    const response = createCachedResponse(
+      200,
+      { etag: '"v42"', 'last-modified': 'Wed, 21 Oct 2015 07:28:00 GMT' },
+      Buffer.from('ok')
+    );
+
+    expect(response.etag).toBe('"v42"');
+    expect(response.lastModified).toBe(Date.parse('Wed, 21 Oct 2015 07:28:00 GMT'));
+  });
+
+  test('should replace a weak ETag with a strong one', () => {
+    const response = createCachedResponse(200, { etag: 'W/"2-abc"' }, Buffer.from('ok'), [], 5000);
+
+    expect(response.etag).not.toMatch(/^W\//);
+    expect(response.lastModified).toBe(5000);
+  });
+});
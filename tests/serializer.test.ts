@@ -0,0 +1,60 @@
+/**
+ * Periodic Osmium - Serializer Tests
+ */
+
+import { msgpackSerializer, richJsonSerializer } from '../src/core/serializer';
+
+const roundTrip = (serializer: typeof msgpackSerializer, value: any) =>
+  serializer.deserialize(serializer.serialize(value));
+
+describe('Serializers', () => {
+  const value = {
+    date: new Date('2024-01-02T03:04:05.678Z'),
+    map: new Map<any, any>([
+      ['key', { nested: new Set([1, 2]) }],
+      [42, 'numeric key'],
+    ]),
+    big: BigInt('-9223372036854775808'),
+    huge: BigInt('123456789012345678901234567890'),
+    buffer: Buffer.from('binary'),
+    list: [1, -1, -33, 255, 65536, -70000, 2 ** 40, 1.5, null, true, 'x'.repeat(300)],
+    text: 'héllo',
+  };
+
+  test.each([
+    ['rich-json', richJsonSerializer],
+    ['msgpack', msgpackSerializer],
+  ])('should round-trip rich values with %s', (_, serializer) => {
+    expect(roundTrip(serializer, value)).toEqual(value);
+  });
+
+  test.each([
+    ['rich-json', richJsonSerializer],
+    ['msgpack', msgpackSerializer],
+  ])('should follow JSON semantics for undefined and toJSON with %s', (_, serializer) => {
+    const input = { skipped: undefined, custom: { toJSON: () => 'custom' }, list: [undefined] };
+
+    expect(roundTrip(serializer, input)).toEqual({ custom: 'custom', list: [null] });
+  });
+
+  test('should not confuse plain objects with tagged values in rich-json', () => {
+    const input = { $t: 'Date', v: 0 };
+
+    expect(roundTrip(richJsonSerializer, input)).toEqual(input);
+  });
+
+  test('should encode large collections with msgpack', () => {
+    const input = {
+      items: Array.from({ length: 70000 }, (_, i) => i % 7),
+      fields: Object.fromEntries(Array.from({ length: 20 }, (_, i) => [`f${i}`, i])),
+    };
+
+    expect(roundTrip(msgpackSerializer, input)).toEqual(input);
+  });
+
+  test('should store msgpack values more compactly than JSON', () => {
+    const input = { ids: Array.from({ length: 100 }, (_, i) => i * 1000), active: true };
+
+    expect(msgpackSerializer.serialize(input).length).toBeLessThan(JSON.stringify(input).length);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Periodic Osmium - Vary Key Tests
+ */
+
+import { getVaryHeaders, getVaryKey } from '../src/core/vary';
+
+describe('Vary keys', () => {
+  test('should return null when nothing is selected', () => {
+    expect(getVaryKey({ headers: { 'accept-language': 'fr' } }, {})).toBeNull();
+  });
+
+  test('should separate variants by header value', () => {
+    const varyBy = { headers: ['Accept-Language'] };
+    const fr = getVaryKey({ headers: { 'accept-language': 'fr' } }, varyBy);
+
+    expect(fr).toBe(getVaryKey({ headers: { 'accept-language': 'fr' } }, varyBy));
+    expect(fr).not.toBe(getVaryKey({ headers: { 'accept-language': 'de' } }, varyBy));
+  });
+
+  test('should read cookies from req.cookies or the Cookie header', () => {
+    const varyBy = { cookies: ['theme'] };
+    const parsed = getVaryKey({ headers: {}, cookies: { theme: 'dark' } }, varyBy);
+
+    expect(getVaryKey({ headers: { cookie: 'a=1; theme=dark' } }, varyBy)).toBe(parsed);
+    expect(getVaryKey({ headers: { cookie: 'theme=light' } }, varyBy)).not.toBe(parsed);
+  });
+
+  test('should read route params and nested user fields', () => {
+    const varyBy = { params: ['id'], user: ['org.id'] };
+    const key = getVaryKey({ headers: {}, params: { id: '1' }, user: { org: { id: 7 } } }, varyBy);
+
+    expect(key).not.toBe(getVaryKey({ headers: {}, params: { id: '1' }, user: {} }, varyBy));
+    expect(key).not.toBe(
+      getVaryKey({ headers: {}, params: { id: '2' }, user: { org: { id: 7 } } }, varyBy)
+    );
+  });
+
+  test('should not confuse attributes of different kinds', () => {
+    const byHeader = getVaryKey({ headers: { theme: 'dark' } }, { headers: ['theme'] });
+    const byCookie = getVaryKey(
+      { headers: {}, cookies: { theme: 'dark' } },
+      { cookies: ['theme'] }
+    );
+
+    expect(byHeader).not.toBe(byCookie);
+  });
+
+  test('should announce headers and cookies in Vary', () => {
+    expect(getVaryHeaders({ headers: ['Accept-Language'], cookies: ['theme'] })).toEqual([
+      'Accept-Language',
+      'Cookie',
+    ]);
+    expect(getVaryHeaders({ user: ['id'] })).toEqual([]);
+  });
+});
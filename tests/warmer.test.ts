@@ -0,0 +1,169 @@
+/**
+ * Periodic Osmium - Cache Warmer Tests
+ */
+
+import http from 'http';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { CacheService } from '../src/core/cache';
+import { CacheWarmer } from '../src/core/warmer';
+import { MemoryStore } from '../src/core/memory-store';
+import { cacheMiddleware } from '../src/adapters/express';
+import { WarmProgress } from '../src/core/types';
+
+describe('CacheWarmer', () => {
+  let store: MemoryStore;
+  let cache: CacheService;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    cache = new CacheService(store, 'warm', 60);
+  });
+
+  test('should load missing keys and skip cached ones', async () => {
+    await cache.set('cached', 'old');
+    const load = jest.fn(async () => 'new');
+    const warmer = new CacheWarmer(cache, {
+      loaders: [
+        { key: 'cached', load },
+        { key: 'missing', load, tags: ['warm'] },
+      ],
+    });
+
+    const report = await warmer.warm();
+
+    expect(report).toMatchObject({ total: 2, warmed: 2, failures: [] });
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(await cache.get('cached')).toBe('old');
+    expect(await cache.get('missing')).toBe('new');
+    expect(await cache.invalidateByTags(['warm'])).toBe(1);
+  });
+
+  test('should limit concurrency and report progress and failures', async () => {
+    let running = 0;
+    let peak = 0;
+    const load = async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      return 1;
+    };
+    const progress: WarmProgress[] = [];
+    const warmer = new CacheWarmer(cache, {
+      loaders: [
+        ...['a', 'b', 'c', 'd'].map((key) => ({ key, load })),
+        { key: 'broken', load: () => Promise.reject(new Error('down')) },
+      ],
+      concurrency: 2,
+      onProgress: (event) => progress.push(event),
+    });
+
+    const report = await warmer.warm();
+
+    expect(peak).toBe(2);
+    expect(report.warmed).toBe(4);
+    expect(report.failures).toEqual([{ target: 'broken', error: new Error('down') }]);
+    expect(progress).toHaveLength(5);
+    expect(progress[4]).toMatchObject({ phase: 'warm', completed: 5, failed: 1, total: 5 });
+  });
+
+  test('should refresh hot entries before they expire', async () => {
+    jest.useFakeTimers();
+    let version = 0;
+    const warmer = new CacheWarmer(cache, {
+      loaders: [{ key: 'hot', load: async () => ++version, ttl: 10, hot: true }],
+      refreshAhead: 2,
+    });
+
+    try {
+      await warmer.start();
+      expect(await cache.get('hot')).toBe(1);
+
+      await jest.advanceTimersByTimeAsync(8000);
+      expect(await cache.get('hot')).toBe(2);
+      expect(await cache.ttl('hot')).toBe(10);
+    } finally {
+      warmer.stop();
+      jest.useRealTimers();
+    }
+  });
+
+  test('should warm routes and refresh hot routes with the warm token', async () => {
+    let calls = 0;
+    const app = express();
+    app.get(
+      '/products',
+      cacheMiddleware(store, { namespace: 'routes', ttl: 60, autoCache: { warmToken: 'secret' } }),
+      (_req, res) => {
+        res.json({ calls: ++calls });
+      }
+    );
+    const server = http.createServer(app);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const warmer = new CacheWarmer(cache, {
+      routes: [{ path: '/products?page=1', ttl: 2, hot: true }],
+      baseUrl: `http://127.0.0.1:${port}`,
+      warmToken: 'secret',
+      refreshAhead: 1,
+    });
+
+    try {
+      expect(await warmer.warm()).toMatchObject({ warmed: 1 });
+      expect(await warmer.warm()).toMatchObject({ warmed: 1 });
+      expect(calls).toBe(1);
+
+      // The refresh a second before expiry bypasses the cached response
+      await warmer.start();
+      await new Promise((resolve) => setTimeout(resolve, 1200));
+      expect(calls).toBe(2);
+    } finally {
+      warmer.stop();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  test('should refresh a hot route from the remaining lifetime of its cached entry', async () => {
+    let calls = 0;
+    const app = express();
+    app.get(
+      '/products',
+      cacheMiddleware(store, { namespace: 'routes', ttl: 3, autoCache: { warmToken: 'secret' } }),
+      (_req, res) => {
+        res.json({ calls: ++calls });
+      }
+    );
+    const server = http.createServer(app);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const warmer = new CacheWarmer(new CacheService(store, 'routes', 60), {
+      routes: [{ path: '/products?page=1', ttl: 3, hot: true }],
+      baseUrl: `http://127.0.0.1:${port}`,
+      warmToken: 'secret',
+      refreshAhead: 1,
+    });
+
+    try {
+      await warmer.warm();
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+
+      // Served from the cache with 2 of its 3 seconds left, so refreshed a second later
+      await warmer.start();
+      await new Promise((resolve) => setTimeout(resolve, 1200));
+      expect(calls).toBe(2);
+    } finally {
+      warmer.stop();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  test('should require a ttl and warm token for hot routes', () => {
+    expect(
+      () => new CacheWarmer(cache, { routes: [{ path: '/a', hot: true }], baseUrl: 'http://x' })
+    ).toThrow('requires a ttl');
+    expect(() => new CacheWarmer(cache, { routes: [{ path: '/a' }] })).toThrow('baseUrl');
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Periodic Osmium - Web Handler Adapter Tests
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { CacheService } from '../src/core/cache';
+import { MemoryStore } from '../src/core/memory-store';
+import { createEntry } from '../src/core/entry';
+import { toRequestListener, webCache } from '../src/adapters/web';
+import { CacheConfig, CachedResponse } from '../src/core/types';
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 30));
+
+describe('webCache', () => {
+  let store: MemoryStore;
+  let calls: number;
+  let failing: boolean;
+
+  // GET /items/:id returns the item with a call counter, PUT returns the updated item
+  const items = async (request: Request) => {
+    const id = new URL(request.url).pathname.split('/')[2];
+    if (failing) {
+      return Response.json({ error: 'down' }, { status: 500 });
+    }
+    if (request.method === 'PUT') {
+      return Response.json({ id, ...((await request.json()) as object) });
+    }
+    return Response.json({ id, calls: ++calls });
+  };
+
+  const wrap = (config: CacheConfig<Request, Response>) => webCache(store, config)(items);
+
+  const get = (path: string, headers: Record<string, string> = {}) =>
+    new Request(`http://localhost${path}`, { headers });
+
+  const put = (path: string, body: unknown) =>
+    new Request(`http://localhost${path}`, {
+      method: 'PUT',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  // Store an item entry that is already past its fresh lifetime
+  const seed = async (policy: { staleWhileRevalidate?: number; staleIfError?: number }) => {
+    const response: CachedResponse = {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ id: '1', calls: 0 }),
+      encoding: 'utf8',
+    };
+    const entry = { ...createEntry(response, -1, policy), kind: 'response' as const };
+    await new CacheService(store, 'app', 60).set('GET:/items/1', entry, 60);
+  };
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    calls = 0;
+    failing = false;
+  });
+
+  test('should cache GET responses and answer conditional requests', async () => {
+    const handler = wrap({ ttl: 60, autoCache: { cacheControl: true } });
+
+    const miss = await handler(get('/items/1'));
+    expect(miss.headers.get('x-cache')).toBe('MISS');
+    expect(miss.headers.get('x-cache-key')).toBe('GET:/items/1');
+    expect(miss.headers.get('cache-control')).toBe('public, max-age=60');
+    expect(await miss.json()).toEqual({ id: '1', calls: 1 });
+    await settle();
+
+    const hit = await handler(get('/items/1'));
+    expect(hit.headers.get('x-cache')).toBe('HIT');
+    expect(hit.headers.get('content-type')).toBe('application/json');
+    expect(await hit.json()).toEqual({ id: '1', calls: 1 });
+
+    const notModified = await handler(
+      get('/items/1', { 'if-none-match': hit.headers.get('etag')! })
+    );
+    expect(notModified.status).toBe(304);
+    expect(calls).toBe(1);
+  });
+
+  test('should stream bodies over maxBodySize without caching them', async () => {
+    const handler = webCache(store, { ttl: 60, autoCache: { maxBodySize: 4 } })(
+      async () => new Response('x'.repeat(64))
+    );
+
+    const response = await handler(get('/large'));
+    expect(await response.text()).toBe('x'.repeat(64));
+    await settle();
+
+    expect((await handler(get('/large'))).headers.get('x-cache')).toBe('MISS');
+  });
+
+  test('should cache and replay responses without a body', async () => {
+    const handler = webCache(store, { ttl: 60 })(async () => new Response(null, { status: 204 }));
+
+    expect((await handler(get('/ping'))).headers.get('x-cache')).toBe('MISS');
+    await settle();
+
+    const hit = await handler(get('/ping'));
+    expect(hit.headers.get('x-cache')).toBe('HIT');
+    expect(hit.status).toBe(204);
+    expect(hit.body).toBeNull();
+  });
+
+  test('should partition entries by the identity extractor', async () => {
+    const handler = wrap({
+      ttl: 60,
+      autoCache: { scope: 'user', identity: (request) => request.headers.get('x-user-id') },
+    });
+
+    const own = await handler(get('/items/1', { 'x-user-id': '42' }));
+    expect(own.headers.get('x-cache-key')).toBe('GET:/items/1:user:42');
+    expect((await handler(get('/items/1'))).headers.get('x-cache')).toBeNull();
+  });
+
+  test('should invalidate keys resolved from the request body after a mutation', async () => {
+    const handler = wrap({ ttl: 60, invalidate: { keys: ['GET:/items/{body.id}'] } });
+    await handler(get('/items/1'));
+    await handler(get('/items/2'));
+    await settle();
+
+    const updated = await handler(put('/items/1', { id: '1', name: 'renamed' }));
+    expect(await updated.json()).toEqual({ id: '1', name: 'renamed' });
+
+    expect((await handler(get('/items/1'))).headers.get('x-cache')).toBe('MISS');
+    expect((await handler(get('/items/2'))).headers.get('x-cache')).toBe('HIT');
+  });
+
+  test('should serve stale entries and refresh them in the background', async () => {
+    const handler = wrap({ ttl: 60, autoCache: { staleWhileRevalidate: 60 } });
+    await seed({ staleWhileRevalidate: 60 });
+
+    const stale = await handler(get('/items/1'));
+    expect(stale.headers.get('x-cache')).toBe('STALE');
+    expect(((await stale.json()) as any).calls).toBe(0);
+    await settle();
+
+    const fresh = await handler(get('/items/1'));
+    expect(fresh.headers.get('x-cache')).toBe('HIT');
+    expect(((await fresh.json()) as any).calls).toBe(1);
+  });
+
+  test('should replace server errors with the last good response', async () => {
+    const handler = wrap({ ttl: 60, autoCache: { staleIfError: 60 } });
+    await seed({ staleIfError: 60 });
+    failing = true;
+
+    const response = await handler(get('/items/1'));
+    expect(response.status).toBe(200);
+    expect(response.headers.get('x-cache')).toBe('STALE');
+    expect(await response.json()).toEqual({ id: '1', calls: 0 });
+  });
+
+  test('should serve wrapped handlers from node:http', async () => {
+    const server = http.createServer(toRequestListener(wrap({ ttl: 60 })));
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const first = await fetch(`http://localhost:${port}/items/1`);
+      expect(first.headers.get('x-cache')).toBe('MISS');
+      expect(await first.json()).toEqual({ id: '1', calls: 1 });
+      await settle();
+
+      const second = await fetch(`http://localhost:${port}/items/1`);
+      expect(second.headers.get('x-cache')).toBe('HIT');
+
+      const updated = await fetch(`http://localhost:${port}/items/1`, {
+        method: 'PUT',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ name: 'renamed' }),
+      });
+      expect(await updated.json()).toEqual({ id: '1', name: 'renamed' });
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});